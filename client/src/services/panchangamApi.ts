@@ -4,7 +4,13 @@
  * Handles communication with the backend API.
  */
 
-import { PanchangamRequest, PanchangamRangeRequest, PanchangamResponse } from '../types/panchangam';
+import {
+  PanchangamRequest,
+  PanchangamRangeRequest,
+  PanchangamResponse,
+  TamilYearResponse,
+  ChandrashtamaSearchResponse,
+} from '../types/panchangam';
 
 const API_BASE = import.meta.env.DEV
   ? 'http://localhost:5501/api'
@@ -57,6 +63,59 @@ export async function fetchTodayPanchangam(): Promise<PanchangamResponse> {
   return response.json();
 }
 
+/**
+ * Get the Tamil month table for the Tamil year beginning in a Gregorian year.
+ */
+export async function fetchTamilYear(
+  year: number,
+  location?: { latitude: number; longitude: number; timezone: string }
+): Promise<TamilYearResponse> {
+  const params = location
+    ? `?${new URLSearchParams({
+        latitude: String(location.latitude),
+        longitude: String(location.longitude),
+        timezone: location.timezone,
+      })}`
+    : '';
+  const response = await fetch(`${API_BASE}/tamil-year/${year}${params}`);
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new ApiError(
+      response.status,
+      errorData.message || errorData.error || 'Failed to fetch Tamil year'
+    );
+  }
+
+  return response.json();
+}
+
+/**
+ * Get the Chandrashtama windows for a birth nakshatra between two dates (YYYY-MM-DD).
+ */
+export async function fetchChandrashtamaWindows(
+  birthNakshatra: string,
+  from: string,
+  to: string,
+  timezone?: string
+): Promise<ChandrashtamaSearchResponse> {
+  const params = new URLSearchParams({ birthNakshatra, from, to });
+  if (timezone) {
+    params.set('timezone', timezone);
+  }
+  const response = await fetch(`${API_BASE}/chandrashtamam?${params}`);
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new ApiError(
+      response.status,
+      errorData.message || errorData.error || 'Failed to fetch Chandrashtamam windows'
+    );
+  }
+
+  return response.json();
+}
+
 /**
  * Calculate Panchangam for a date range.
  */
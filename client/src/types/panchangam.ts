@@ -9,12 +9,28 @@ export interface BilingualText {
   ta: string;
 }
 
+export interface Timestamp {
+  iso: string;
+  time: string;
+  dayOffset: number;
+}
+
 export interface PanchangamRequest {
   date: string;
   latitude: number;
   longitude: number;
   timezone: string;
   birthNakshatra?: string;
+  nodeType?: NodeType;
+  ayanamsa?: AyanamsaSystem;
+  ayanamsaValue?: number;
+  sunriseDefinition?: SunriseDefinition;
+  elevation?: number;
+  highLatitudePolicy?: HighLatitudePolicy;
+  lunarMonthSystem?: LunarMonthSystem;
+  includeMuhurtas?: boolean;
+  includeChoghadiya?: boolean;
+  horaSystem?: HoraSystem;
 }
 
 export interface PanchangamRangeRequest {
@@ -24,21 +40,157 @@ export interface PanchangamRangeRequest {
   longitude: number;
   timezone: string;
   birthNakshatra?: string;
+  nodeType?: NodeType;
+  ayanamsa?: AyanamsaSystem;
+  ayanamsaValue?: number;
+  sunriseDefinition?: SunriseDefinition;
+  elevation?: number;
+  highLatitudePolicy?: HighLatitudePolicy;
+  lunarMonthSystem?: LunarMonthSystem;
+  includeMuhurtas?: boolean;
+  includeChoghadiya?: boolean;
+  horaSystem?: HoraSystem;
 }
 
 export interface LocationInfo {
   latitude: number;
   longitude: number;
   timezone: string;
+  elevation: number;
+}
+
+export type SunriseDefinition = 'upper-limb' | 'centre' | 'hindu';
+
+export type HighLatitudePolicy = 'nearest-latitude' | 'fixed-time' | 'midnight-sun';
+
+export type SunCondition = 'normal' | 'midnight-sun' | 'polar-night';
+
+export interface DayBoundaryInfo {
+  condition: SunCondition;
+  policy: HighLatitudePolicy;
+  isConventional: boolean;
+  effectiveLatitude: number;
+}
+
+export type AyanamsaSystem =
+  | 'lahiri'
+  | 'true-chitrapaksha'
+  | 'raman'
+  | 'krishnamurti'
+  | 'fagan-bradley'
+  | 'yukteshwar'
+  | 'fixed';
+
+export interface AyanamsaInfo {
+  system: AyanamsaSystem;
+  name: BilingualText;
+  degree: number;
+}
+
+export interface SeasonInfo {
+  ritu: {
+    index: number;
+    name: BilingualText;
+  };
+  ayana: {
+    id: 'uttarayana' | 'dakshinayana';
+    name: BilingualText;
+  };
+  suryaNakshatra: {
+    index: number;
+    name: BilingualText;
+    pada: number;
+  };
+  sunLongitude: number;
+}
+
+export interface TamilIndicators {
+  soolam: {
+    direction: BilingualText;
+    parigaram: BilingualText;
+  };
+  netram: number;
+  jeevan: number;
+  isKarinal: boolean;
+  agniNakshatram: {
+    startAt: Timestamp;
+    endAt: Timestamp;
+  } | null;
+  yogam: TamilYogamPeriod[];
+}
+
+export interface TamilYogamPeriod extends TimePeriod {
+  id: 'amirtha' | 'siddha' | 'marana';
+  name: BilingualText;
+  nature: PeriodNature;
+}
+
+export type LunarMonthSystem = 'amanta' | 'purnimanta';
+
+export interface LunarMonthInfo {
+  index: number;
+  name: BilingualText;
+  system: LunarMonthSystem;
+  isAdhika: boolean;
+  isKshaya: boolean;
+  kshayaMonth?: BilingualText;
+  startAt: Timestamp;
+  endAt: Timestamp;
+}
+
+export interface TamilMonthInfo {
+  index: number;
+  name: BilingualText;
+  sankranti: Timestamp;
+  startDate: string;
+  endDate: string;
+  totalDays: number;
+}
+
+export interface TamilYearResponse {
+  year: number;
+  tamilYear: {
+    name: BilingualText;
+    number: number;
+  };
+  location: LocationInfo;
+  ayanamsa: AyanamsaInfo;
+  months: TamilMonthInfo[];
+}
+
+export interface ChandrashtamaWindow {
+  startAt: Timestamp;
+  endAt: Timestamp;
+  durationHours: number;
+}
+
+export interface ChandrashtamaSearchResponse {
+  from: string;
+  to: string;
+  timezone: string;
+  birthNakshatra: BilingualText;
+  birthRasi: BilingualText;
+  chandrashtamaRasi: BilingualText;
+  ayanamsa: AyanamsaInfo;
+  windows: ChandrashtamaWindow[];
 }
 
 export interface TamilCalendar {
   month: BilingualText;
   day: number;
+  totalDays: number;
   year: {
     name: BilingualText;
     number: number;
   };
+  eras: EraYears;
+}
+
+export interface EraYears {
+  kaliYuga: number;
+  shalivahanaShaka: number;
+  vikramaSamvat: number;
+  thiruvalluvar: number;
 }
 
 export interface TithiInfo {
@@ -46,6 +198,7 @@ export interface TithiInfo {
   name: BilingualText;
   paksha: BilingualText;
   endTime: string;
+  endAt: Timestamp;
   nextTithi: BilingualText;
 }
 
@@ -54,6 +207,7 @@ export interface NakshatraInfo {
   name: BilingualText;
   pada: number;
   endTime: string;
+  endAt: Timestamp;
   lord: BilingualText;
   nextNakshatra: BilingualText;
 }
@@ -61,38 +215,155 @@ export interface NakshatraInfo {
 export interface YogaInfo {
   index: number;
   name: BilingualText;
+  nature: 'auspicious' | 'inauspicious' | 'neutral';
   endTime: string;
+  endAt: Timestamp;
 }
 
 export interface KaranaInfo {
   index: number;
   name: BilingualText;
   endTime: string;
+  endAt: Timestamp;
   nextKarana: BilingualText;
 }
 
+export interface TimelineEntry {
+  index: number;
+  name: BilingualText;
+  start: string;
+  end: string;
+  startAt: Timestamp;
+  endAt: Timestamp;
+  isKshaya: boolean;
+  isAdhika: boolean;
+}
+
+export interface DailyTimeline {
+  tithis: TimelineEntry[];
+  nakshatras: TimelineEntry[];
+  yogas: TimelineEntry[];
+  karanas: TimelineEntry[];
+}
+
 export interface RasiInfo {
   index: number;
   name: BilingualText;
   degree: number;
 }
 
+export type GrahaId =
+  | 'sun'
+  | 'moon'
+  | 'mars'
+  | 'mercury'
+  | 'jupiter'
+  | 'venus'
+  | 'saturn'
+  | 'rahu'
+  | 'ketu';
+
+export type NodeType = 'mean' | 'true';
+
+export interface GrahaInfo {
+  id: GrahaId;
+  name: BilingualText;
+  longitude: number;
+  rasi: RasiInfo;
+  nakshatra: {
+    index: number;
+    name: BilingualText;
+    pada: number;
+  };
+  speed: number;
+  isRetrograde: boolean;
+}
+
 export interface LagnamInfo {
   index: number;
   rasi: BilingualText;
   start: string;
   end: string;
+  startAt: Timestamp;
+  endAt: Timestamp;
+}
+
+export interface LagnaIruppu {
+  index: number;
+  rasi: BilingualText;
+  nazhigai: number;
+  vinadi: number;
+  duration: string;
 }
 
 export interface TimePeriod {
   start: string;
   end: string;
+  startAt: Timestamp;
+  endAt: Timestamp;
+}
+
+export type PeriodNature = 'good' | 'bad' | 'neutral';
+
+export interface DivisionPeriod extends TimePeriod {
+  index: number;
+  name: BilingualText;
+  nature: PeriodNature;
+}
+
+export interface DayNightDivision {
+  day: DivisionPeriod[];
+  night: DivisionPeriod[];
+}
+
+export type HoraSystem = 'equal' | 'proportional';
+
+export interface HoraPeriod extends TimePeriod {
+  index: number;
+  lord: GrahaId;
+  name: BilingualText;
+  nature: PeriodNature;
+}
+
+export interface HoraInfo {
+  system: HoraSystem;
+  periods: HoraPeriod[];
+}
+
+export interface MuhurtaPeriod extends TimePeriod {
+  name: BilingualText;
 }
 
 export interface InauspiciousPeriods {
   rahuKalam: TimePeriod;
   yamaGandam: TimePeriod;
   kuligai: TimePeriod;
+  durmuhurtam: MuhurtaPeriod[];
+  varjyam: MuhurtaPeriod[];
+  bhadra: BhadraPeriod[];
+  panchaka: PanchakaPeriod[];
+}
+
+export interface BhadraPart extends TimePeriod {
+  id: 'mukha' | 'madhya' | 'puchha';
+  name: BilingualText;
+  nature: PeriodNature;
+}
+
+export interface BhadraPeriod extends MuhurtaPeriod {
+  loka: {
+    id: 'swarga' | 'patala' | 'bhuloka';
+    name: BilingualText;
+    nature: PeriodNature;
+  };
+  parts: BhadraPart[];
+}
+
+export interface PanchakaPeriod extends MuhurtaPeriod {
+  type: {
+    id: 'roga' | 'raja' | 'agni' | 'chora' | 'mrityu';
+    name: BilingualText;
+  } | null;
 }
 
 export interface GowriPeriod extends TimePeriod {
@@ -102,7 +373,11 @@ export interface GowriPeriod extends TimePeriod {
 
 export interface AuspiciousPeriods {
   gowriNeram: GowriPeriod[];
+  nightGowriNeram: GowriPeriod[];
   nallaNeram: TimePeriod[];
+  abhijitMuhurta: MuhurtaPeriod;
+  brahmaMuhurta: MuhurtaPeriod;
+  amritaKalam: MuhurtaPeriod[];
 }
 
 export type FestivalType = 'hindu' | 'christian' | 'muslim' | 'government';
@@ -110,30 +385,91 @@ export type FestivalType = 'hindu' | 'christian' | 'muslim' | 'government';
 export interface FestivalInfo {
   name: BilingualText;
   type: FestivalType;
+  karmakala?: FestivalKarmakala;  // For tithi and nakshatra festivals not reckoned at sunrise
+}
+
+export type KarmakalaId = 'sunrise' | 'arunodaya' | 'aparahna' | 'pradosha' | 'nishitha';
+
+export interface FestivalKarmakala extends TimePeriod {
+  id: KarmakalaId;
+  name: BilingualText;
 }
 
 export interface ChandrashtamaInfo {
   isActive: boolean;
   startTime: string;
   endTime: string;
+  startAt: Timestamp;
+  endAt: Timestamp;
   birthNakshatra: BilingualText;
   currentMoonRasi: BilingualText;
 }
 
+export interface ChandrashtamaNakshatra {
+  nakshatra: BilingualText;
+  padas: number[];
+}
+
+export interface ChandrashtamaNakshatras extends TimePeriod {
+  moonRasi: BilingualText;
+  birthRasi: BilingualText;
+  nakshatras: ChandrashtamaNakshatra[];
+}
+
+export interface TaraPeriod extends TimePeriod {
+  index: number;
+  name: BilingualText;
+  nature: PeriodNature;
+  nakshatra: BilingualText;
+}
+
+export interface TarabalamInfo {
+  birthNakshatra: BilingualText;
+  periods: TaraPeriod[];
+}
+
+export interface ChandrabalamPeriod extends TimePeriod {
+  house: number;
+  rasi: BilingualText;
+  nature: PeriodNature;
+}
+
+export interface ChandrabalamInfo {
+  birthRasi: BilingualText;
+  periods: ChandrabalamPeriod[];
+}
+
 export interface PanchangamResponse {
   date: string;
   location: LocationInfo;
+  ayanamsa: AyanamsaInfo;
   tamilCalendar: TamilCalendar;
+  lunarMonth: LunarMonthInfo;
+  season: SeasonInfo;
+  tamilIndicators: TamilIndicators;
+  sunriseDefinition: SunriseDefinition;
   sunrise: string;
   sunset: string;
+  sunriseAt: Timestamp;
+  sunsetAt: Timestamp;
+  dayBoundary: DayBoundaryInfo;
   tithi: TithiInfo;
   nakshatra: NakshatraInfo;
   yoga: YogaInfo;
   karana: KaranaInfo;
+  timeline: DailyTimeline;
   moonRasi: RasiInfo;
   lagnam: LagnamInfo[];
+  lagnaIruppu: LagnaIruppu;
   inauspiciousPeriods: InauspiciousPeriods;
   auspiciousPeriods: AuspiciousPeriods;
+  hora: HoraInfo;
   festivals: FestivalInfo[];
   chandrashtama: ChandrashtamaInfo | null;
+  chandrashtamaNakshatras: ChandrashtamaNakshatras[];
+  tarabalam: TarabalamInfo | null;
+  chandrabalam: ChandrabalamInfo | null;
+  grahaNilai: GrahaInfo[];
+  muhurtas?: DayNightDivision;
+  choghadiya?: DayNightDivision;
 }
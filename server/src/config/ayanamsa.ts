@@ -0,0 +1,84 @@
+/**
+ * Ayanamsa Configuration
+ *
+ * The ayanamsa is the angular distance between the tropical (moving) and
+ * sidereal (fixed) zodiacs. Different traditions fix the sidereal zodiac
+ * differently, so each system is defined by its value at a reference epoch.
+ * Values at other dates follow from general precession.
+ *
+ * Reference epochs and values follow the Swiss Ephemeris definitions.
+ */
+
+import { AyanamsaConfig, AyanamsaSystem } from '../types/panchangam.js';
+
+export const DEFAULT_AYANAMSA: AyanamsaSystem = 'lahiri';
+
+/**
+ * Spica (Chitra) J2000 ecliptic coordinates in degrees.
+ * True Chitrapaksha keeps Spica at exactly 180° sidereal longitude.
+ */
+export const SPICA_J2000 = {
+  longitude: 203.8413577,
+  latitude: -2.0544886,
+};
+
+/**
+ * Supported ayanamsa systems.
+ * referenceJD/referenceValue are unused for 'true-chitrapaksha' and 'fixed'.
+ */
+export const AYANAMSAS: AyanamsaConfig[] = [
+  {
+    system: 'lahiri',
+    name: { en: 'Lahiri (Chitrapaksha)', ta: 'லஹிரி (சித்திரபக்ஷம்)' },
+    referenceJD: 2435553.5,         // 21 Mar 1956
+    referenceValue: 23.245524743,
+  },
+  {
+    system: 'true-chitrapaksha',
+    name: { en: 'True Chitrapaksha', ta: 'உண்மை சித்திரபக்ஷம்' },
+    referenceJD: 2451545.0,
+    referenceValue: 0,
+  },
+  {
+    system: 'raman',
+    name: { en: 'Raman', ta: 'ராமன்' },
+    referenceJD: 2415020.0,         // J1900
+    referenceValue: 360 - 338.98556,
+  },
+  {
+    system: 'krishnamurti',
+    name: { en: 'Krishnamurti (KP)', ta: 'கிருஷ்ணமூர்த்தி (கே.பி)' },
+    referenceJD: 2415020.0,         // J1900
+    referenceValue: 360 - 337.636111,
+  },
+  {
+    system: 'fagan-bradley',
+    name: { en: 'Fagan-Bradley', ta: 'ஃபேகன்-பிராட்லி' },
+    referenceJD: 2433282.42346,     // 1950
+    referenceValue: 24.042044444,
+  },
+  {
+    system: 'yukteshwar',
+    name: { en: 'Sri Yukteshwar', ta: 'ஸ்ரீ யுக்தேஸ்வர்' },
+    referenceJD: 2415020.0,         // J1900
+    referenceValue: 360 - 338.917778,
+  },
+  {
+    system: 'fixed',
+    name: { en: 'Fixed Value', ta: 'நிலையான மதிப்பு' },
+    referenceJD: 2451545.0,
+    referenceValue: 0,
+  },
+];
+
+/**
+ * Ids of the supported ayanamsa systems, for request validation.
+ */
+export const AYANAMSA_SYSTEMS = AYANAMSAS.map(a => a.system) as [AyanamsaSystem, ...AyanamsaSystem[]];
+
+/**
+ * Get ayanamsa configuration by system id.
+ */
+export function getAyanamsaConfig(system: AyanamsaSystem): AyanamsaConfig | undefined {
+  return AYANAMSAS.find(a => a.system === system);
+}
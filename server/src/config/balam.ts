@@ -0,0 +1,39 @@
+/**
+ * Tarabalam and Chandrabalam Configuration
+ *
+ * Tarabalam: counting from the birth nakshatra (janma, 1) to the current
+ * nakshatra, the count taken in cycles of 9 gives the tara.
+ *
+ * Chandrabalam: the house (1-12) of the transiting Moon counted from the
+ * birth Moon rasi.
+ */
+
+import { TaraConfig } from '../types/panchangam.js';
+
+/**
+ * The nine taras.
+ */
+export const TARAS: TaraConfig[] = [
+  { index: 1, name: { en: 'Janma',        ta: 'ஜென்ம தாரை' },    nature: 'neutral' },
+  { index: 2, name: { en: 'Sampat',       ta: 'சம்பத் தாரை' },   nature: 'good' },
+  { index: 3, name: { en: 'Vipat',        ta: 'விபத் தாரை' },    nature: 'bad' },
+  { index: 4, name: { en: 'Kshema',       ta: 'க்ஷேம தாரை' },    nature: 'good' },
+  { index: 5, name: { en: 'Pratyak',      ta: 'பிரத்யக் தாரை' },  nature: 'bad' },
+  { index: 6, name: { en: 'Sadhana',      ta: 'சாதக தாரை' },     nature: 'good' },
+  { index: 7, name: { en: 'Naidhana',     ta: 'நைதன தாரை' },     nature: 'bad' },
+  { index: 8, name: { en: 'Mitra',        ta: 'மித்ர தாரை' },     nature: 'good' },
+  { index: 9, name: { en: 'Parama Mitra', ta: 'பரம மித்ர தாரை' }, nature: 'good' },
+];
+
+/**
+ * Houses from the birth rasi in which the Moon gives Chandrabalam.
+ */
+export const CHANDRABALAM_GOOD_HOUSES: number[] = [1, 3, 6, 7, 10, 11];
+
+/**
+ * Get the tara from the birth and current nakshatra indices (1-27).
+ */
+export function getTara(birthNakshatra: number, currentNakshatra: number): TaraConfig {
+  const count = (currentNakshatra - birthNakshatra + 27) % 27;
+  return TARAS[count % 9]!;
+}
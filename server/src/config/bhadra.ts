@@ -0,0 +1,48 @@
+/**
+ * Bhadra (Vishti Karana) Configuration
+ *
+ * Vishti, the 7th movable karana, is called Bhadra and is avoided for
+ * auspicious work. It occurs 8 times in a lunar month, each lasting half a
+ * tithi. Its harm depends on where Bhadra dwells, by the Moon's rasi:
+ * on earth (Bhuloka) it is harmful; in heaven (Swarga) or the netherworld
+ * (Patala) it is not.
+ *
+ * The Bhadra is taken as 30 ghatis of its actual duration: the first 5 are
+ * its face (Mukha), the most harmful; the last 3 its tail (Puchha), which
+ * is acceptable.
+ */
+
+import { BhadraLokaConfig, BhadraPartConfig, BilingualText } from '../types/panchangam.js';
+
+// Index of Vishti in MOVABLE_KARANAS (config/karana.ts)
+export const VISHTI_KARANA_INDEX = 7;
+
+export const BHADRA_NAME: BilingualText = { en: 'Vishti (Bhadra)', ta: 'விஷ்டி (பத்ரை)' };
+
+/**
+ * Where Bhadra dwells, by the Moon's rasi (1-12).
+ */
+export const BHADRA_LOKAS: BhadraLokaConfig[] = [
+  { id: 'swarga',  name: { en: 'Swarga',  ta: 'சுவர்க்கம்' }, nature: 'good', rasis: [1, 2, 3, 8] },    // Mesha, Vrishabha, Mithuna, Vrischika
+  { id: 'patala',  name: { en: 'Patala',  ta: 'பாதாளம்' },   nature: 'good', rasis: [6, 7, 9, 10] },   // Kanya, Tula, Dhanu, Makara
+  { id: 'bhuloka', name: { en: 'Bhuloka', ta: 'பூலோகம்' },   nature: 'bad',  rasis: [4, 5, 11, 12] },  // Karka, Simha, Kumbha, Meena
+];
+
+// A Bhadra's duration, in ghatis, for its parts
+export const BHADRA_GHATIS = 30;
+
+/**
+ * Parts of the Bhadra in time order; their ghatis add up to BHADRA_GHATIS.
+ */
+export const BHADRA_PARTS: BhadraPartConfig[] = [
+  { id: 'mukha',  name: { en: 'Bhadra Mukha',  ta: 'பத்ரை முகம்' },  nature: 'bad',  ghatis: 5 },
+  { id: 'madhya', name: { en: 'Bhadra Madhya', ta: 'பத்ரை மத்தி' },  nature: 'bad',  ghatis: 22 },
+  { id: 'puchha', name: { en: 'Bhadra Puchha', ta: 'பத்ரை புச்சம்' }, nature: 'good', ghatis: 3 },
+];
+
+/**
+ * Get where Bhadra dwells for the Moon's rasi (1-12).
+ */
+export function getBhadraLoka(moonRasi: number): BhadraLokaConfig {
+  return BHADRA_LOKAS.find(loka => loka.rasis.includes(moonRasi)) ?? BHADRA_LOKAS[0]!;
+}
@@ -0,0 +1,59 @@
+/**
+ * Choghadiya Configuration
+ *
+ * The day (sunrise to sunset) and the night (sunset to next sunrise) are
+ * each divided into 8 Choghadiyas, named after 7 periods ruled by the
+ * planets. The day begins with the period of the weekday lord and steps
+ * forward one period at a time; the night begins with the period of the
+ * fifth weekday lord and steps forward five at a time (back two).
+ */
+
+import { DivisionConfig } from '../types/panchangam.js';
+
+// Choghadiyas in a day or a night
+export const CHOGHADIYAS_PER_HALF = 8;
+
+/**
+ * The 7 Choghadiyas in day order.
+ */
+export const CHOGHADIYAS: DivisionConfig[] = [
+  { index: 1, name: { en: 'Udveg', ta: 'உத்வேக' }, nature: 'bad' },      // Sun
+  { index: 2, name: { en: 'Char',  ta: 'சர' },      nature: 'neutral' },  // Venus
+  { index: 3, name: { en: 'Labh',  ta: 'லாப' },     nature: 'good' },     // Mercury
+  { index: 4, name: { en: 'Amrit', ta: 'அமிர்த' },  nature: 'good' },     // Moon
+  { index: 5, name: { en: 'Kaal',  ta: 'கால' },     nature: 'bad' },      // Saturn
+  { index: 6, name: { en: 'Shubh', ta: 'சுப' },     nature: 'good' },     // Jupiter
+  { index: 7, name: { en: 'Rog',   ta: 'ரோக' },     nature: 'bad' },      // Mars
+];
+
+/**
+ * First day Choghadiya (index) by day of week.
+ *
+ * Sunday=0, Monday=1, ... Saturday=6
+ */
+export const CHOGHADIYA_DAY_START: Record<number, number> = {
+  0: 1,  // Sunday: Udveg
+  1: 4,  // Monday: Amrit
+  2: 7,  // Tuesday: Rog
+  3: 3,  // Wednesday: Labh
+  4: 6,  // Thursday: Shubh
+  5: 2,  // Friday: Char
+  6: 5,  // Saturday: Kaal
+};
+
+/**
+ * First night Choghadiya (index) by day of week.
+ */
+export const CHOGHADIYA_NIGHT_START: Record<number, number> = {
+  0: 6,  // Sunday: Shubh
+  1: 2,  // Monday: Char
+  2: 5,  // Tuesday: Kaal
+  3: 1,  // Wednesday: Udveg
+  4: 4,  // Thursday: Amrit
+  5: 7,  // Friday: Rog
+  6: 3,  // Saturday: Labh
+};
+
+// Periods advanced from one Choghadiya to the next
+export const CHOGHADIYA_DAY_STEP = 1;
+export const CHOGHADIYA_NIGHT_STEP = 5;
@@ -2,15 +2,49 @@
  * Festival Configuration
  *
  * Config-driven festival rules for Hindu, Christian, Muslim, and government holidays.
- * Hindu festivals are typically based on Tithi or Nakshatra.
+ * Hindu festivals are typically based on Tithi or Nakshatra, which must prevail
+ * at the festival's karmakala (sunrise, dawn, afternoon, dusk or midnight);
+ * others follow the solar months (Sankranti, Tamil date).
  * Christian/Muslim/Government festivals are fixed dates.
  */
 
-import { TithiBasedFestival, FixedDateFestival, NakshatraBasedFestival } from '../types/panchangam.js';
+import {
+  TithiBasedFestival,
+  FixedDateFestival,
+  NakshatraBasedFestival,
+  SankrantiFestival,
+  TamilDateFestival,
+  KarmakalaConfig,
+  KarmakalaId,
+} from '../types/panchangam.js';
+
+/**
+ * Karmakalas: times of day at which a tithi or nakshatra is reckoned.
+ */
+export const KARMAKALAS: Record<KarmakalaId, KarmakalaConfig> = {
+  sunrise:   { id: 'sunrise',   name: { en: 'Sunrise',        ta: 'சூரிய உதயம்' },   atStart: true },
+  arunodaya: { id: 'arunodaya', name: { en: 'Arunodaya',      ta: 'அருணோதயம்' },    atStart: true },   // Free of the previous tithi at dawn
+  aparahna:  { id: 'aparahna',  name: { en: 'Aparahna',       ta: 'அபராஹ்னம்' },    atStart: false },
+  pradosha:  { id: 'pradosha',  name: { en: 'Pradosha Kalam', ta: 'பிரதோஷ காலம்' }, atStart: false },
+  nishitha:  { id: 'nishitha',  name: { en: 'Nishitha Kalam', ta: 'நிசித காலம்' },  atStart: false },
+};
+
+// Arunodaya: 4 ghatis (of 60 in a day) before sunrise
+export const ARUNODAYA_GHATIS = 4;
+export const GHATIS_PER_DAY = 60;
+
+// Aparahna: the 4th of the 5 parts of the day (sunrise to sunset)
+export const DAY_PARTS = 5;
+export const APARAHNA_PART = 4;
+
+// Pradosha: the first 3 of the 15 night muhurtas; Nishitha: the 8th
+export const PRADOSHA_MUHURTAS = 3;
+export const NISHITHA_MUHURTA = 8;
 
 /**
  * Hindu festivals based on Tithi (lunar day).
- * These occur when specific Tithi falls in specific Tamil month.
+ * These occur when specific Tithi of a paksha prevails at the karmakala
+ * in specific Tamil month.
  */
 export const TITHI_BASED_FESTIVALS: TithiBasedFestival[] = [
   // Major festivals
@@ -33,14 +67,16 @@ export const TITHI_BASED_FESTIVALS: TithiBasedFestival[] = [
     type: 'hindu',
     month: 6,  // Purattasi
     tithi: 10, // Dashami
-    paksha: 'shukla'
+    paksha: 'shukla',
+    karmakala: 'aparahna'
   },
   {
     name: { en: 'Deepavali', ta: 'தீபாவளி' },
     type: 'hindu',
     month: 7,  // Aippasi
-    tithi: 30, // Amavasya
-    paksha: 'krishna'
+    tithi: 14, // Naraka Chaturdashi, with the oil bath at dawn
+    paksha: 'krishna',
+    karmakala: 'arunodaya'
   },
   {
     name: { en: 'Karthigai Deepam', ta: 'கார்த்திகை தீபம்' },
@@ -53,8 +89,9 @@ export const TITHI_BASED_FESTIVALS: TithiBasedFestival[] = [
     name: { en: 'Maha Shivaratri', ta: 'மகா சிவராத்திரி' },
     type: 'hindu',
     month: 11, // Maasi
-    tithi: 29, // Chaturdashi
-    paksha: 'krishna'
+    tithi: 14, // Chaturdashi
+    paksha: 'krishna',
+    karmakala: 'nishitha'
   },
   {
     name: { en: 'Holi', ta: 'ஹோலி' },
@@ -63,13 +100,6 @@ export const TITHI_BASED_FESTIVALS: TithiBasedFestival[] = [
     tithi: 15, // Purnima
     paksha: 'shukla'
   },
-  {
-    name: { en: 'Tamil New Year', ta: 'தமிழ் புத்தாண்டு' },
-    type: 'hindu',
-    month: 1,  // Chithirai
-    tithi: 1,  // Any (first day of month)
-    paksha: 'shukla'
-  },
   {
     name: { en: 'Akshaya Tritiya', ta: 'அக்ஷய திருதியை' },
     type: 'hindu',
@@ -89,16 +119,34 @@ export const TITHI_BASED_FESTIVALS: TithiBasedFestival[] = [
     name: { en: 'Ekadashi', ta: 'ஏகாதசி' },
     type: 'hindu',
     month: 0,
-    tithi: 26, // Krishna Ekadashi (index 26)
+    tithi: 11, // Ekadashi
     paksha: 'krishna'
   },
-  // Amavasya observances
+  {
+    name: { en: 'Vaikunta Ekadashi', ta: 'வைகுண்ட ஏகாதசி' },
+    type: 'hindu',
+    month: 9,  // Margazhi
+    tithi: 11, // Ekadashi, free of Dashami at dawn
+    paksha: 'shukla',
+    karmakala: 'arunodaya',
+    tieBreak: 'second'  // Ekadashi at the dawn of two days: the second is kept
+  },
+  // Amavasya observances (tarpanam in the afternoon)
   {
     name: { en: 'Amavasya', ta: 'அமாவாசை' },
     type: 'hindu',
     month: 0,  // All months
-    tithi: 30,
-    paksha: 'krishna'
+    tithi: 15,
+    paksha: 'krishna',
+    karmakala: 'aparahna'
+  },
+  {
+    name: { en: 'Mahalaya Amavasya', ta: 'மகாளய அமாவாசை' },
+    type: 'hindu',
+    month: 6,  // Purattasi
+    tithi: 15,
+    paksha: 'krishna',
+    karmakala: 'aparahna'
   },
   // Purnima observances
   {
@@ -113,14 +161,16 @@ export const TITHI_BASED_FESTIVALS: TithiBasedFestival[] = [
     type: 'hindu',
     month: 0,  // All months
     tithi: 13, // Trayodashi
-    paksha: 'shukla'
+    paksha: 'shukla',
+    karmakala: 'pradosha'
   },
   {
     name: { en: 'Pradosham', ta: 'பிரதோஷம்' },
     type: 'hindu',
     month: 0,
-    tithi: 28, // Krishna Trayodashi
-    paksha: 'krishna'
+    tithi: 13, // Trayodashi
+    paksha: 'krishna',
+    karmakala: 'pradosha'
   },
 ];
 
@@ -132,7 +182,8 @@ export const NAKSHATRA_BASED_FESTIVALS: NakshatraBasedFestival[] = [
     name: { en: 'Krishna Jayanthi', ta: 'கிருஷ்ண ஜெயந்தி' },
     type: 'hindu',
     month: 5,    // Aavani
-    nakshatra: 4  // Rohini
+    nakshatra: 4, // Rohini
+    karmakala: 'nishitha'
   },
   {
     name: { en: 'Thiruvathirai', ta: 'திருவாதிரை' },
@@ -154,6 +205,23 @@ export const NAKSHATRA_BASED_FESTIVALS: NakshatraBasedFestival[] = [
   },
 ];
 
+/**
+ * Festivals on a day counted from the first day of a solar month.
+ */
+export const SANKRANTI_FESTIVALS: SankrantiFestival[] = [
+  { name: { en: 'Bhogi', ta: 'போகி' }, type: 'hindu', rasi: 10, dayOffset: -1 },               // Eve of Makara Sankranti
+  { name: { en: 'Pongal', ta: 'பொங்கல்' }, type: 'hindu', rasi: 10, dayOffset: 0 },           // Makara Sankranti
+  { name: { en: 'Mattu Pongal', ta: 'மாட்டுப் பொங்கல்' }, type: 'hindu', rasi: 10, dayOffset: 1 },
+];
+
+/**
+ * Festivals on a fixed day of a Tamil month.
+ */
+export const TAMIL_DATE_FESTIVALS: TamilDateFestival[] = [
+  { name: { en: 'Tamil New Year', ta: 'தமிழ் புத்தாண்டு' }, type: 'hindu', month: 1, day: 1 },  // Chithirai 1
+  { name: { en: 'Aadi Perukku', ta: 'ஆடிப் பெருக்கு' }, type: 'hindu', month: 4, day: 18 },      // Aadi 18
+];
+
 /**
  * Fixed date festivals (Gregorian calendar).
  */
@@ -165,9 +233,7 @@ export const FIXED_DATE_FESTIVALS: FixedDateFestival[] = [
   { name: { en: 'Gandhi Jayanti', ta: 'காந்தி ஜெயந்தி' }, type: 'government', month: 10, day: 2 },
 
   // Tamil Nadu specific
-  { name: { en: 'Pongal', ta: 'பொங்கல்' }, type: 'hindu', month: 1, day: 14 },
   { name: { en: 'Thiruvalluvar Day', ta: 'திருவள்ளுவர் தினம்' }, type: 'government', month: 1, day: 15 },
-  { name: { en: 'Mattu Pongal', ta: 'மாட்டுப் பொங்கல்' }, type: 'hindu', month: 1, day: 16 },
 
   // Christian festivals
   { name: { en: 'Christmas', ta: 'கிறிஸ்துமஸ்' }, type: 'christian', month: 12, day: 25 },
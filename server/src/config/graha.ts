@@ -0,0 +1,32 @@
+/**
+ * Graha (Planet) Configuration
+ *
+ * The nine Navagrahas used in Tamil panchangams, in traditional order:
+ * Sun, Moon, Mars, Mercury, Jupiter, Venus, Saturn, Rahu and Ketu.
+ * Rahu and Ketu are the lunar nodes and always lie 180° apart.
+ */
+
+import { GrahaConfig, GrahaId } from '../types/panchangam.js';
+
+/**
+ * Complete list of 9 Grahas with Tamil names.
+ * Index is 1-based for traditional usage.
+ */
+export const GRAHAS: GrahaConfig[] = [
+  { index: 1, id: 'sun',     name: { en: 'Sun',     ta: 'சூரியன்' } },
+  { index: 2, id: 'moon',    name: { en: 'Moon',    ta: 'சந்திரன்' } },
+  { index: 3, id: 'mars',    name: { en: 'Mars',    ta: 'செவ்வாய்' } },
+  { index: 4, id: 'mercury', name: { en: 'Mercury', ta: 'புதன்' } },
+  { index: 5, id: 'jupiter', name: { en: 'Jupiter', ta: 'குரு' } },
+  { index: 6, id: 'venus',   name: { en: 'Venus',   ta: 'சுக்கிரன்' } },
+  { index: 7, id: 'saturn',  name: { en: 'Saturn',  ta: 'சனி' } },
+  { index: 8, id: 'rahu',    name: { en: 'Rahu',    ta: 'ராகு' } },
+  { index: 9, id: 'ketu',    name: { en: 'Ketu',    ta: 'கேது' } },
+];
+
+/**
+ * Get graha configuration by id.
+ */
+export function getGrahaConfig(id: GrahaId): GrahaConfig | undefined {
+  return GRAHAS.find(g => g.id === id);
+}
@@ -0,0 +1,44 @@
+/**
+ * Hora Configuration
+ *
+ * A Hora is a planetary hour: 24 in a day from sunrise to the next sunrise.
+ * The first Hora of the day is ruled by the weekday lord, and the lords
+ * follow in descending order of orbital period (the Chaldean order):
+ * Saturn, Jupiter, Mars, Sun, Venus, Mercury, Moon.
+ */
+
+import { HoraConfig, HoraSystem } from '../types/panchangam.js';
+
+export const DEFAULT_HORA_SYSTEM: HoraSystem = 'equal';
+
+// Horas in a day, and in each of day and night for the proportional system
+export const HORAS_PER_DAY = 24;
+
+/**
+ * Hora lords in Chaldean order, with the Hora's nature.
+ * Jupiter, Venus, Mercury and Moon Horas are auspicious (subha ஓரை).
+ */
+export const HORA_LORDS: HoraConfig[] = [
+  { lord: 'saturn',  name: { en: 'Sani Hora',    ta: 'சனி ஓரை' },      nature: 'bad' },
+  { lord: 'jupiter', name: { en: 'Guru Hora',    ta: 'குரு ஓரை' },     nature: 'good' },
+  { lord: 'mars',    name: { en: 'Sevvai Hora',  ta: 'செவ்வாய் ஓரை' },  nature: 'bad' },
+  { lord: 'sun',     name: { en: 'Surya Hora',   ta: 'சூரிய ஓரை' },    nature: 'bad' },
+  { lord: 'venus',   name: { en: 'Sukra Hora',   ta: 'சுக்கிர ஓரை' },  nature: 'good' },
+  { lord: 'mercury', name: { en: 'Budha Hora',   ta: 'புதன் ஓரை' },    nature: 'good' },
+  { lord: 'moon',    name: { en: 'Chandra Hora', ta: 'சந்திர ஓரை' },   nature: 'good' },
+];
+
+/**
+ * Position in HORA_LORDS of the weekday lord, who rules the first Hora.
+ *
+ * Sunday=0, Monday=1, ... Saturday=6
+ */
+export const WEEKDAY_HORA_START: Record<number, number> = {
+  0: 3,  // Sunday: Sun
+  1: 6,  // Monday: Moon
+  2: 2,  // Tuesday: Mars
+  3: 5,  // Wednesday: Mercury
+  4: 1,  // Thursday: Jupiter
+  5: 4,  // Friday: Venus
+  6: 0,  // Saturday: Saturn
+};
@@ -0,0 +1,33 @@
+/**
+ * Lunar Month Configuration
+ *
+ * The twelve Chandramana months, named after the nakshatra near which the
+ * full moon falls. A month is named after the rasi the Sun enters during
+ * it: the month in which the Sun enters Mesha is Chaitra.
+ */
+
+import { LunarMonthConfig, LunarMonthSystem } from '../types/panchangam.js';
+
+export const DEFAULT_LUNAR_MONTH_SYSTEM: LunarMonthSystem = 'amanta';
+
+export const LUNAR_MONTHS: LunarMonthConfig[] = [
+  { index: 1,  name: { en: 'Chaitra',       ta: 'சைத்ர' } },
+  { index: 2,  name: { en: 'Vaishakha',     ta: 'வைசாக' } },
+  { index: 3,  name: { en: 'Jyeshtha',      ta: 'ஜ்யேஷ்ட' } },
+  { index: 4,  name: { en: 'Ashadha',       ta: 'ஆஷாட' } },
+  { index: 5,  name: { en: 'Shravana',      ta: 'ஸ்ராவண' } },
+  { index: 6,  name: { en: 'Bhadrapada',    ta: 'பாத்ரபத' } },
+  { index: 7,  name: { en: 'Ashvina',       ta: 'ஆஸ்வயுஜ' } },
+  { index: 8,  name: { en: 'Kartika',       ta: 'கார்த்திக' } },
+  { index: 9,  name: { en: 'Margashirsha',  ta: 'மார்கசீர்ஷ' } },
+  { index: 10, name: { en: 'Pausha',        ta: 'பௌஷ' } },
+  { index: 11, name: { en: 'Magha',         ta: 'மாக' } },
+  { index: 12, name: { en: 'Phalguna',      ta: 'பால்குன' } },
+];
+
+/**
+ * Get lunar month configuration by index (1-12).
+ */
+export function getLunarMonthConfig(index: number): LunarMonthConfig {
+  return LUNAR_MONTHS[(((index - 1) % 12) + 12) % 12]!;
+}
@@ -0,0 +1,117 @@
+/**
+ * Muhurta Configuration
+ *
+ * A muhurta is 1/15 of the day (sunrise to sunset) or of the night
+ * (sunset to next sunrise), about 48 minutes at the equinoxes.
+ * Muhurtas are numbered 1-15 for the day and 16-30 for the night.
+ *
+ * Varjyam (Thyajyam) and Amrita Kalam are reckoned within each nakshatra:
+ * the nakshatra's duration is taken as 60 ghatis, and each period begins
+ * at a fixed ghati for that nakshatra and lasts 4 ghatis.
+ */
+
+import { BilingualText, DivisionConfig } from '../types/panchangam.js';
+
+// Muhurtas in a day or a night
+export const MUHURTAS_PER_HALF = 15;
+
+// Abhijit: the 8th day muhurta, around local noon
+export const ABHIJIT_MUHURTA = 8;
+
+// Brahma Muhurta: the 14th night muhurta, the last but one before sunrise
+export const BRAHMA_MUHURTA = 14;
+
+/**
+ * Durmuhurtam by day of week (muhurta numbers, 16-30 are night muhurtas).
+ *
+ * Sunday=0, Monday=1, ... Saturday=6
+ */
+export const DURMUHURTAM_MUHURTAS: Record<number, number[]> = {
+  0: [14],        // Sunday
+  1: [9, 12],     // Monday
+  2: [4, 22],     // Tuesday: 4th day and 7th night muhurta
+  3: [8],         // Wednesday
+  4: [6, 12],     // Thursday
+  5: [4, 9],      // Friday
+  6: [1, 2],      // Saturday
+};
+
+// A nakshatra's duration, in ghatis, for Varjyam and Amrita Kalam
+export const NAKSHATRA_GHATIS = 60;
+
+// Length of Varjyam and Amrita Kalam, in ghatis
+export const NAKSHATRA_KALAM_GHATIS = 4;
+
+/**
+ * Ghati within each nakshatra (Ashwini first) at which Varjyam begins.
+ */
+export const VARJYAM_START_GHATIS: number[] = [
+  50, 24, 30, 40, 14, 11, 30, 20, 32,   // Ashwini - Ashlesha
+  30, 20, 18, 21, 20, 14, 14, 10, 14,   // Magha - Jyeshtha
+  20, 24, 20, 10, 10, 18, 16, 24, 30,   // Moola - Revati
+];
+
+/**
+ * Ghati within each nakshatra (Ashwini first) at which Amrita Kalam begins.
+ */
+export const AMRITA_KALAM_START_GHATIS: number[] = [
+  42, 48, 54, 52, 38, 35, 54, 44, 56,   // Ashwini - Ashlesha
+  54, 44, 42, 45, 44, 38, 38, 34, 38,   // Magha - Jyeshtha
+  44, 48, 44, 34, 34, 42, 40, 48, 54,   // Moola - Revati
+];
+
+/**
+ * Names of the muhurta periods.
+ */
+export const MUHURTA_PERIOD_NAMES: Record<
+  'abhijit' | 'brahma' | 'durmuhurtam' | 'varjyam' | 'amritaKalam',
+  BilingualText
+> = {
+  abhijit: { en: 'Abhijit Muhurta', ta: 'அபிஜித் முகூர்த்தம்' },
+  brahma: { en: 'Brahma Muhurta', ta: 'பிரம்ம முகூர்த்தம்' },
+  durmuhurtam: { en: 'Durmuhurtam', ta: 'துர்முகூர்த்தம்' },
+  varjyam: { en: 'Varjyam', ta: 'தியாஜ்யம்' },
+  amritaKalam: { en: 'Amrita Kalam', ta: 'அமிர்த காலம்' },
+};
+
+/**
+ * The 15 day muhurtas, from sunrise.
+ */
+export const DAY_MUHURTAS: DivisionConfig[] = [
+  { index: 1,  name: { en: 'Rudra',        ta: 'ருத்ர' },        nature: 'bad' },
+  { index: 2,  name: { en: 'Ahi',          ta: 'அஹி' },          nature: 'bad' },
+  { index: 3,  name: { en: 'Mitra',        ta: 'மித்ர' },        nature: 'good' },
+  { index: 4,  name: { en: 'Pitru',        ta: 'பித்ரு' },       nature: 'bad' },
+  { index: 5,  name: { en: 'Vasu',         ta: 'வசு' },          nature: 'good' },
+  { index: 6,  name: { en: 'Varaha',       ta: 'வராஹ' },         nature: 'good' },
+  { index: 7,  name: { en: 'Vishvedeva',   ta: 'விஸ்வேதேவ' },    nature: 'good' },
+  { index: 8,  name: { en: 'Vidhi',        ta: 'விதி' },         nature: 'good' },   // Abhijit
+  { index: 9,  name: { en: 'Satamukhi',    ta: 'சதமுகி' },       nature: 'good' },
+  { index: 10, name: { en: 'Puruhuta',     ta: 'புருஹூத' },      nature: 'bad' },
+  { index: 11, name: { en: 'Vahini',       ta: 'வாஹினி' },       nature: 'bad' },
+  { index: 12, name: { en: 'Naktanakara',  ta: 'நக்தனகர' },      nature: 'bad' },
+  { index: 13, name: { en: 'Varuna',       ta: 'வருண' },         nature: 'good' },
+  { index: 14, name: { en: 'Aryaman',      ta: 'அர்யமா' },       nature: 'good' },
+  { index: 15, name: { en: 'Bhaga',        ta: 'பக' },           nature: 'bad' },
+];
+
+/**
+ * The 15 night muhurtas, from sunset.
+ */
+export const NIGHT_MUHURTAS: DivisionConfig[] = [
+  { index: 1,  name: { en: 'Girisha',       ta: 'கிரீச' },          nature: 'bad' },
+  { index: 2,  name: { en: 'Ajapada',       ta: 'அஜபாத' },          nature: 'bad' },
+  { index: 3,  name: { en: 'Ahirbudhnya',   ta: 'அஹிர்புத்ன்ய' },   nature: 'good' },
+  { index: 4,  name: { en: 'Pusha',         ta: 'பூஷா' },           nature: 'good' },
+  { index: 5,  name: { en: 'Ashvini',       ta: 'அஸ்வினி' },        nature: 'good' },
+  { index: 6,  name: { en: 'Yama',          ta: 'யம' },             nature: 'bad' },
+  { index: 7,  name: { en: 'Agni',          ta: 'அக்னி' },          nature: 'good' },
+  { index: 8,  name: { en: 'Vidhata',       ta: 'விதாதா' },         nature: 'good' },
+  { index: 9,  name: { en: 'Chanda',        ta: 'சண்ட' },           nature: 'good' },
+  { index: 10, name: { en: 'Aditi',         ta: 'அதிதி' },          nature: 'good' },
+  { index: 11, name: { en: 'Jiva',          ta: 'ஜீவ' },            nature: 'good' },
+  { index: 12, name: { en: 'Vishnu',        ta: 'விஷ்ணு' },         nature: 'good' },
+  { index: 13, name: { en: 'Dyumadgadyuti', ta: 'த்யுமத்கத்யுதி' }, nature: 'good' },
+  { index: 14, name: { en: 'Brahma',        ta: 'பிரம்ம' },         nature: 'good' },   // Brahma Muhurta
+  { index: 15, name: { en: 'Samudra',       ta: 'சமுத்ர' },         nature: 'good' },
+];
@@ -0,0 +1,37 @@
+/**
+ * Panchaka Configuration
+ *
+ * Panchaka is the Moon's transit of the last five nakshatras: from the
+ * second half of Dhanishta through Shatabhisha, Purva Bhadrapada,
+ * Uttara Bhadrapada and Revati, that is through Kumbha and Meena.
+ * Its type is fixed by the weekday on which it begins.
+ */
+
+import { BilingualText, PanchakaTypeConfig } from '../types/panchangam.js';
+
+// Moon's sidereal longitude: Dhanishta pada 3 to the end of Revati
+export const PANCHAKA_START_DEGREE = 300;
+export const PANCHAKA_END_DEGREE = 360;
+
+export const PANCHAKA_NAME: BilingualText = { en: 'Panchaka', ta: 'பஞ்சகம்' };
+
+/**
+ * Panchaka types by the weekday it begins on.
+ * A Panchaka beginning on Wednesday or Thursday has no type.
+ *
+ * Sunday=0, Monday=1, ... Saturday=6
+ */
+export const PANCHAKA_TYPES: PanchakaTypeConfig[] = [
+  { id: 'roga',   name: { en: 'Roga Panchaka',   ta: 'ரோக பஞ்சகம்' },      dayOfWeek: 0 },  // Sunday
+  { id: 'raja',   name: { en: 'Raja Panchaka',   ta: 'ராஜ பஞ்சகம்' },      dayOfWeek: 1 },  // Monday
+  { id: 'agni',   name: { en: 'Agni Panchaka',   ta: 'அக்னி பஞ்சகம்' },    dayOfWeek: 2 },  // Tuesday
+  { id: 'chora',  name: { en: 'Chora Panchaka',  ta: 'சோர பஞ்சகம்' },      dayOfWeek: 5 },  // Friday
+  { id: 'mrityu', name: { en: 'Mrityu Panchaka', ta: 'மிருத்யு பஞ்சகம்' },  dayOfWeek: 6 },  // Saturday
+];
+
+/**
+ * Get the Panchaka type for the weekday it begins on.
+ */
+export function getPanchakaType(dayOfWeek: number): PanchakaTypeConfig | undefined {
+  return PANCHAKA_TYPES.find(type => type.dayOfWeek === dayOfWeek);
+}
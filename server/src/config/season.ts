@@ -0,0 +1,50 @@
+/**
+ * Season Configuration
+ *
+ * The six Ritus (seasons) of two solar months each, and the two Ayanas
+ * (half-years) of the Sun's northward and southward course, both reckoned
+ * from the Sun's sidereal longitude as in Tamil panchangams.
+ */
+
+import { AyanaConfig, RituConfig } from '../types/panchangam.js';
+
+// Each ritu spans two rasis
+export const RITU_SPAN = 60;
+
+/**
+ * The six Ritus, beginning with Vasanta at Mesha (Chithirai and Vaikasi).
+ */
+export const RITUS: RituConfig[] = [
+  { index: 1, name: { en: 'Vasanta',  ta: 'வசந்த ருது' },   startDegree: 0 },    // Chithirai, Vaikasi (spring)
+  { index: 2, name: { en: 'Grishma',  ta: 'கிரீஷ்ம ருது' },  startDegree: 60 },   // Aani, Aadi (summer)
+  { index: 3, name: { en: 'Varsha',   ta: 'வர்ஷ ருது' },    startDegree: 120 },  // Aavani, Purattasi (monsoon)
+  { index: 4, name: { en: 'Sharad',   ta: 'சரத் ருது' },    startDegree: 180 },  // Aippasi, Karthigai (autumn)
+  { index: 5, name: { en: 'Hemanta',  ta: 'ஹேமந்த ருது' },  startDegree: 240 },  // Margazhi, Thai (pre-winter)
+  { index: 6, name: { en: 'Shishira', ta: 'சிசிர ருது' },    startDegree: 300 },  // Maasi, Panguni (winter)
+];
+
+/**
+ * The two Ayanas. Uttarayana begins at Makara Sankranti (Thai 1),
+ * Dakshinayana at Karka Sankranti (Aadi 1).
+ */
+export const AYANAS: AyanaConfig[] = [
+  { id: 'uttarayana',   name: { en: 'Uttarayana',   ta: 'உத்தராயணம்' },  startDegree: 270 },
+  { id: 'dakshinayana', name: { en: 'Dakshinayana', ta: 'தட்சிணாயனம்' }, startDegree: 90 },
+];
+
+/**
+ * Get the ritu from the Sun's sidereal longitude.
+ */
+export function getRitu(sunLongitude: number): RituConfig {
+  const normalized = ((sunLongitude % 360) + 360) % 360;
+  return RITUS[Math.floor(normalized / RITU_SPAN)] ?? RITUS[0]!;
+}
+
+/**
+ * Get the ayana from the Sun's sidereal longitude.
+ */
+export function getAyana(sunLongitude: number): AyanaConfig {
+  const normalized = ((sunLongitude % 360) + 360) % 360;
+  const isDakshinayana = normalized >= 90 && normalized < 270;
+  return AYANAS[isDakshinayana ? 1 : 0]!;
+}
@@ -114,28 +114,28 @@ export function getTamilDay(sunLongitude: number): number {
   return Math.floor(degreeInSign) + 1;
 }
 
+// Eras counted in elapsed (current-year) numbers, as printed in Tamil panchangams
+export const KALI_YUGA_OFFSET = 3101;          // Kali year at Mesha Sankranti = Gregorian + 3101
+export const SHALIVAHANA_SHAKA_OFFSET = -78;   // Shaka year at Chaitra Shukla Pratipada = Gregorian - 78
+export const VIKRAMA_SAMVAT_OFFSET = 57;       // Vikrama year at Chaitra Shukla Pratipada = Gregorian + 57
+export const THIRUVALLUVAR_OFFSET = 31;        // Thiruvalluvar year at Thai 1 = Gregorian + 31
+
 /**
- * Get Tamil year name for a given Gregorian year.
- * The 60-year cycle repeats. Reference: Year 2000 was Vikruthi (index 24).
+ * Get the Tamil year (samvatsara) that begins at Mesha Sankranti in a Gregorian year.
+ * The 60-year cycle repeats. Reference: the year beginning April 1987 was Prabhava.
+ *
+ * @param chithiraiYear - Gregorian year in which Chithirai 1 of the Tamil year falls
  */
-export function getTamilYear(gregorianYear: number): { name: BilingualText; number: number } {
-  // Reference: 2000 AD = Vikruthi (Year 24 in 60-year cycle)
-  // Calculate offset from reference year
-  const referenceYear = 2000;
-  const referenceIndex = 23;  // 0-indexed
+export function getTamilYear(chithiraiYear: number): { name: BilingualText; number: number } {
+  const referenceYear = 1987;   // Prabhava (index 0)
 
-  const yearsSinceReference = gregorianYear - referenceYear;
-  let cycleIndex = (referenceIndex + yearsSinceReference) % 60;
+  let cycleIndex = (chithiraiYear - referenceYear) % 60;
   if (cycleIndex < 0) {
     cycleIndex += 60;
   }
 
-  // Kali Yuga year calculation (approximate)
-  // Kali Yuga started 3102 BCE, so Kali year = Gregorian year + 3101
-  const kaliYear = gregorianYear + 3101;
-
   return {
     name: TAMIL_YEARS[cycleIndex] ?? TAMIL_YEARS[0]!,
-    number: kaliYear,
+    number: chithiraiYear + KALI_YUGA_OFFSET,
   };
 }
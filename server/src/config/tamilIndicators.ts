@@ -0,0 +1,138 @@
+/**
+ * Tamil Daily Indicators Configuration
+ *
+ * Rules behind the markers printed on Tamil daily sheet calendars:
+ * - Soolam: the direction to avoid travelling in, by weekday, with its
+ *   Parigaram (the remedy taken before setting out)
+ * - Netram and Jeevan: the "eyes" (0-2) and "life" (0, 1/2, 1) of the day,
+ *   from the day's nakshatra counted from the Sun's nakshatra
+ * - Karinal: fixed inauspicious days of each Tamil month
+ * - Agni Nakshatram (Kathiri): the hottest days, while the Sun passes from
+ *   the 3rd pada of Bharani to the end of the 1st pada of Rohini
+ * - Amirtha, Siddha and Marana yogam: from the weekday and the nakshatra
+ */
+
+import { BilingualText, SoolamConfig, TamilYogamConfig, TamilYogamId } from '../types/panchangam.js';
+
+const directions: Record<'east' | 'west' | 'north' | 'south', BilingualText> = {
+  east: { en: 'East', ta: 'கிழக்கு' },
+  west: { en: 'West', ta: 'மேற்கு' },
+  north: { en: 'North', ta: 'வடக்கு' },
+  south: { en: 'South', ta: 'தெற்கு' },
+};
+
+const parigarams: Record<'jaggery' | 'curd' | 'milk' | 'oil', BilingualText> = {
+  jaggery: { en: 'Jaggery', ta: 'வெல்லம்' },
+  curd: { en: 'Curd', ta: 'தயிர்' },
+  milk: { en: 'Milk', ta: 'பால்' },
+  oil: { en: 'Oil', ta: 'தைலம்' },
+};
+
+/**
+ * Soolam direction and Parigaram by day of week.
+ *
+ * Sunday=0, Monday=1, ... Saturday=6
+ */
+export const SOOLAM: SoolamConfig[] = [
+  { dayOfWeek: 0, direction: directions.west,  parigaram: parigarams.jaggery },  // Sunday
+  { dayOfWeek: 1, direction: directions.east,  parigaram: parigarams.curd },     // Monday
+  { dayOfWeek: 2, direction: directions.north, parigaram: parigarams.milk },     // Tuesday
+  { dayOfWeek: 3, direction: directions.north, parigaram: parigarams.milk },     // Wednesday
+  { dayOfWeek: 4, direction: directions.south, parigaram: parigarams.oil },      // Thursday
+  { dayOfWeek: 5, direction: directions.west,  parigaram: parigarams.jaggery },  // Friday
+  { dayOfWeek: 6, direction: directions.east,  parigaram: parigarams.curd },     // Saturday
+];
+
+/**
+ * Netram (0-2) by the day's nakshatra counted from the Sun's nakshatra
+ * (1 = the Sun's own nakshatra). The day sees fully with the Moon opposite
+ * the Sun and is blind with the Moon beside it.
+ */
+export const NETRAM_BY_COUNT: number[] = [
+  0, 0, 0, 1, 1, 1, 1, 1, 1,    // 1-9
+  2, 2, 2, 2, 2, 2, 2, 2, 2,    // 10-18
+  1, 1, 1, 1, 1, 1, 0, 0, 0,    // 19-27
+];
+
+/**
+ * Jeevan (0, 1/2 or 1) by the day's nakshatra counted from the Sun's
+ * nakshatra, in the same way as Netram.
+ */
+export const JEEVAN_BY_COUNT: number[] = [
+  0,   0,   0,   0.5, 0.5, 0.5, 0.5, 0.5, 0.5,   // 1-9
+  1,   1,   1,   1,   1,   1,   1,   1,   1,     // 10-18
+  0.5, 0.5, 0.5, 0.5, 0.5, 0.5, 0,   0,   0,     // 19-27
+];
+
+/**
+ * Karinal days of each Tamil month (Chithirai = 1).
+ */
+export const KARINAL_DAYS: Record<number, number[]> = {
+  1:  [6, 15],              // Chithirai
+  2:  [7, 16, 17],          // Vaikasi
+  3:  [1, 6],               // Aani
+  4:  [2, 10, 20],          // Aadi
+  5:  [2, 9, 28],           // Aavani
+  6:  [16, 29],             // Purattasi
+  7:  [6, 20],              // Aippasi
+  8:  [1, 10, 17],          // Karthigai
+  9:  [6, 9, 11],           // Margazhi
+  10: [1, 2, 3, 11, 17],    // Thai
+  11: [15, 16, 17],         // Maasi
+  12: [6, 15, 19],          // Panguni
+};
+
+// Agni Nakshatram: Sun's sidereal longitude from Bharani pada 3 to the end of Rohini pada 1
+export const AGNI_NAKSHATRAM_START_DEGREE = 20;
+export const AGNI_NAKSHATRAM_END_DEGREE = 130 / 3;    // 43°20'
+
+/**
+ * Amirtha, Siddha and Marana yogam.
+ */
+export const TAMIL_YOGAMS: Record<TamilYogamId, TamilYogamConfig> = {
+  amirtha: { id: 'amirtha', name: { en: 'Amirtha Yogam', ta: 'அமிர்த யோகம்' }, nature: 'good' },
+  siddha:  { id: 'siddha',  name: { en: 'Siddha Yogam',  ta: 'சித்த யோகம்' },  nature: 'good' },
+  marana:  { id: 'marana',  name: { en: 'Marana Yogam',  ta: 'மரண யோகம்' },   nature: 'bad' },
+};
+
+/**
+ * Nakshatras (1-27) making Amirtha yogam on each day of week.
+ *
+ * Sunday=0, Monday=1, ... Saturday=6
+ */
+export const AMIRTHA_YOGAM_NAKSHATRAS: Record<number, number[]> = {
+  0: [1, 8, 12, 13, 19, 21, 26],  // Sunday: Ashwini, Pushya, Uttara Phalguni, Hasta, Moola, Uttara Ashadha, Uttara Bhadrapada
+  1: [4, 5, 8, 17, 22],           // Monday: Rohini, Mrigashira, Pushya, Anuradha, Shravana
+  2: [1, 3, 9, 26],               // Tuesday: Ashwini, Krittika, Ashlesha, Uttara Bhadrapada
+  3: [3, 4, 5, 13, 17],           // Wednesday: Krittika, Rohini, Mrigashira, Hasta, Anuradha
+  4: [1, 7, 8, 17, 27],           // Thursday: Ashwini, Punarvasu, Pushya, Anuradha, Revati
+  5: [1, 7, 17, 22, 27],          // Friday: Ashwini, Punarvasu, Anuradha, Shravana, Revati
+  6: [4, 15, 22],                 // Saturday: Rohini, Swati, Shravana
+};
+
+/**
+ * Nakshatras (1-27) making Marana yogam on each day of week.
+ * Every other weekday and nakshatra makes Siddha yogam.
+ */
+export const MARANA_YOGAM_NAKSHATRAS: Record<number, number[]> = {
+  0: [17],   // Sunday: Anuradha
+  1: [21],   // Monday: Uttara Ashadha
+  2: [24],   // Tuesday: Shatabhisha
+  3: [1],    // Wednesday: Ashwini
+  4: [5],    // Thursday: Mrigashira
+  5: [9],    // Friday: Ashlesha
+  6: [13],   // Saturday: Hasta
+};
+
+/**
+ * Get the Amirtha, Siddha or Marana yogam of a weekday and nakshatra.
+ */
+export function getTamilYogam(dayOfWeek: number, nakshatraIndex: number): TamilYogamConfig {
+  if (MARANA_YOGAM_NAKSHATRAS[dayOfWeek]?.includes(nakshatraIndex)) {
+    return TAMIL_YOGAMS.marana;
+  }
+  if (AMIRTHA_YOGAM_NAKSHATRAS[dayOfWeek]?.includes(nakshatraIndex)) {
+    return TAMIL_YOGAMS.amirtha;
+  }
+  return TAMIL_YOGAMS.siddha;
+}
@@ -5,8 +5,19 @@
  * Acts as a thin layer between routes and services.
  */
 
-import { PanchangamRequest, PanchangamResponse } from '../types/panchangam.js';
-import { calculatePanchangam } from '../services/panchangamService.js';
+import {
+  PanchangamRequest,
+  PanchangamResponse,
+  TamilYearRequest,
+  TamilYearResponse,
+  ChandrashtamaSearchRequest,
+  ChandrashtamaSearchResponse,
+} from '../types/panchangam.js';
+import {
+  calculatePanchangam,
+  calculateTamilYearCalendar,
+  calculateChandrashtamaWindows,
+} from '../services/panchangamService.js';
 import { isValidTimezone } from '../utils/datetime.js';
 
 /**
@@ -32,10 +43,47 @@ async function calculate(request: PanchangamRequest): Promise<PanchangamResponse
     throw new Error('Longitude must be between -180 and 180');
   }
 
+  // Validate ayanamsa
+  if (request.ayanamsa === 'fixed' && request.ayanamsaValue === undefined) {
+    throw new Error('ayanamsaValue is required when ayanamsa is "fixed"');
+  }
+
   // Calculate Panchangam
   return calculatePanchangam(request);
 }
 
+/**
+ * Validate and process Tamil year (month table) request.
+ */
+async function calculateTamilYear(request: TamilYearRequest): Promise<TamilYearResponse> {
+  if (!isValidTimezone(request.timezone)) {
+    throw new Error(`Invalid timezone: ${request.timezone}`);
+  }
+
+  if (request.ayanamsa === 'fixed' && request.ayanamsaValue === undefined) {
+    throw new Error('ayanamsaValue is required when ayanamsa is "fixed"');
+  }
+
+  return calculateTamilYearCalendar(request);
+}
+
+/**
+ * Validate and process Chandrashtama window search request.
+ */
+async function searchChandrashtama(request: ChandrashtamaSearchRequest): Promise<ChandrashtamaSearchResponse> {
+  if (!isValidTimezone(request.timezone)) {
+    throw new Error(`Invalid timezone: ${request.timezone}`);
+  }
+
+  if (request.ayanamsa === 'fixed' && request.ayanamsaValue === undefined) {
+    throw new Error('ayanamsaValue is required when ayanamsa is "fixed"');
+  }
+
+  return calculateChandrashtamaWindows(request);
+}
+
 export const panchangamController = {
   calculate,
+  calculateTamilYear,
+  searchChandrashtama,
 };
@@ -0,0 +1,75 @@
+/**
+ * Ayanamsa Calculator
+ *
+ * Computes the ayanamsa (tropical-to-sidereal offset) for an exact Julian Day.
+ * Epoch-based systems (Lahiri, Raman, KP, Fagan-Bradley, Yukteshwar) add the
+ * general precession in longitude accumulated since their reference epoch.
+ * True Chitrapaksha precesses Spica to the date and places it at 180°.
+ */
+
+import { coord, precess } from 'astronomia';
+import { AyanamsaSystem } from '../types/panchangam.js';
+import { getAyanamsaConfig, SPICA_J2000 } from '../config/ayanamsa.js';
+
+/**
+ * General precession in longitude since J2000, in degrees.
+ * IAU 2006 (Capitaine et al. 2003) polynomial.
+ */
+function getGeneralPrecession(jd: number): number {
+  const T = (jd - 2451545.0) / 36525.0;
+  const arcseconds = 5028.796195 * T +
+                     1.1054348 * T * T +
+                     0.00007964 * T * T * T -
+                     0.000023857 * T * T * T * T;
+  return arcseconds / 3600;
+}
+
+/**
+ * True Chitrapaksha ayanamsa: Spica's tropical longitude of date minus 180°.
+ */
+function getTrueChitrapakshaAyanamsa(jd: number): number {
+  const spica = new coord.Ecliptic(
+    SPICA_J2000.longitude * Math.PI / 180,
+    SPICA_J2000.latitude * Math.PI / 180
+  );
+  const epochTo = 2000.0 + (jd - 2451545.0) / 365.25;
+  const ofDate = precess.eclipticPosition(spica, 2000.0, epochTo);
+
+  let longitude = ofDate.lon * 180 / Math.PI;
+  longitude = ((longitude % 360) + 360) % 360;
+  return longitude - 180;
+}
+
+/**
+ * Calculate the ayanamsa for a given Julian Day and system.
+ *
+ * @param jd - Julian Day Number
+ * @param system - Ayanamsa system
+ * @param fixedValue - Ayanamsa in degrees, used only by the 'fixed' system
+ * @returns Ayanamsa in degrees
+ */
+export function calculateAyanamsa(
+  jd: number,
+  system: AyanamsaSystem,
+  fixedValue?: number
+): number {
+  if (system === 'fixed') {
+    if (fixedValue === undefined) {
+      throw new Error('Fixed ayanamsa requires a value');
+    }
+    return fixedValue;
+  }
+
+  if (system === 'true-chitrapaksha') {
+    return getTrueChitrapakshaAyanamsa(jd);
+  }
+
+  const config = getAyanamsaConfig(system);
+  if (!config) {
+    throw new Error(`Unknown ayanamsa system: ${system}`);
+  }
+
+  return config.referenceValue +
+         getGeneralPrecession(jd) -
+         getGeneralPrecession(config.referenceJD);
+}
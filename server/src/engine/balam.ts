@@ -0,0 +1,130 @@
+/**
+ * Tarabalam and Chandrabalam Calculator
+ *
+ * Personal strength of the day for a birth nakshatra:
+ * - Tarabalam: the tara of the Moon's current nakshatra counted from the
+ *   birth nakshatra. Changes when the Moon enters the next nakshatra.
+ * - Chandrabalam: the Moon's house counted from the birth Moon rasi.
+ *   Changes when the Moon enters the next rasi.
+ *
+ * Both are listed from sunrise to the next sunrise, one entry for each
+ * nakshatra or rasi the Moon passes through.
+ */
+
+import {
+  BilingualText,
+  ChandrabalamInfo,
+  ChandrabalamPeriod,
+  TarabalamInfo,
+  TaraPeriod,
+  TimePeriod,
+} from '../types/panchangam.js';
+import { getMoonLongitude } from './swisseph.js';
+import { findSegmentSpans, SegmentSpan } from './events.js';
+import { getBirthMoonRasi } from './chandrashtama.js';
+import { getNakshatraByName, getNakshatraConfig, NAKSHATRA_SPAN } from '../config/nakshatra.js';
+import { getRasiConfig, RASI_SPAN } from '../config/rasi.js';
+import { getTara, CHANDRABALAM_GOOD_HOUSES } from '../config/balam.js';
+import { julianDayToDateTime, formatTimeShort, createTimestamp } from '../utils/datetime.js';
+
+// Longer than the Moon's stay in a rasi (about 2.5 days)
+const LOOKAROUND_DAYS = 3;
+
+const UNKNOWN: BilingualText = { en: 'Unknown', ta: 'அறியாத' };
+
+/**
+ * Find the segments of the Moon's longitude (nakshatras, rasis) it occupies
+ * between sunrise and the next sunrise, with their full start and end.
+ */
+function findMoonSegments(span: number, sunriseJD: number, nextSunriseJD: number): SegmentSpan[] {
+  return findSegmentSpans(sunriseJD, nextSunriseJD, span, getMoonLongitude, LOOKAROUND_DAYS);
+}
+
+/**
+ * Format a segment's start and end relative to sunrise.
+ */
+function formatSegment(segment: SegmentSpan, sunriseJD: number, timezone: string): TimePeriod {
+  const sunriseTime = julianDayToDateTime(sunriseJD, timezone);
+  const startTime = julianDayToDateTime(segment.startJD, timezone);
+  const endTime = julianDayToDateTime(segment.endJD, timezone);
+
+  return {
+    start: formatTimeShort(startTime),
+    end: formatTimeShort(endTime),
+    startAt: createTimestamp(startTime, sunriseTime, formatTimeShort),
+    endAt: createTimestamp(endTime, sunriseTime, formatTimeShort),
+  };
+}
+
+/**
+ * Calculate Tarabalam from sunrise to the next sunrise.
+ *
+ * @param sunriseJD - Julian Day of sunrise
+ * @param nextSunriseJD - Julian Day of the next sunrise
+ * @param birthNakshatra - Birth nakshatra name (English or Tamil)
+ * @param timezone - Timezone for formatting
+ * @returns TarabalamInfo or null if the nakshatra is not found
+ */
+export function calculateTarabalam(
+  sunriseJD: number,
+  nextSunriseJD: number,
+  birthNakshatra: string,
+  timezone: string
+): TarabalamInfo | null {
+  const birthNakshatraConfig = getNakshatraByName(birthNakshatra);
+  if (!birthNakshatraConfig) {
+    return null;  // Invalid nakshatra
+  }
+
+  const periods = findMoonSegments(NAKSHATRA_SPAN, sunriseJD, nextSunriseJD).map((segment): TaraPeriod => {
+    const tara = getTara(birthNakshatraConfig.index, segment.index);
+    return {
+      index: tara.index,
+      name: tara.name,
+      nature: tara.nature,
+      nakshatra: getNakshatraConfig(segment.index)?.name ?? UNKNOWN,
+      ...formatSegment(segment, sunriseJD, timezone),
+    };
+  });
+
+  return {
+    birthNakshatra: birthNakshatraConfig.name,
+    periods,
+  };
+}
+
+/**
+ * Calculate Chandrabalam from sunrise to the next sunrise.
+ *
+ * @param sunriseJD - Julian Day of sunrise
+ * @param nextSunriseJD - Julian Day of the next sunrise
+ * @param birthNakshatra - Birth nakshatra name (English or Tamil)
+ * @param timezone - Timezone for formatting
+ * @returns ChandrabalamInfo or null if the nakshatra is not found
+ */
+export function calculateChandrabalam(
+  sunriseJD: number,
+  nextSunriseJD: number,
+  birthNakshatra: string,
+  timezone: string
+): ChandrabalamInfo | null {
+  const birthRasi = getBirthMoonRasi(birthNakshatra);
+  if (!birthRasi) {
+    return null;  // Invalid nakshatra
+  }
+
+  const periods = findMoonSegments(RASI_SPAN, sunriseJD, nextSunriseJD).map((segment): ChandrabalamPeriod => {
+    const house = ((segment.index - birthRasi + 12) % 12) + 1;
+    return {
+      house,
+      rasi: getRasiConfig(segment.index)?.name ?? UNKNOWN,
+      nature: CHANDRABALAM_GOOD_HOUSES.includes(house) ? 'good' : 'bad',
+      ...formatSegment(segment, sunriseJD, timezone),
+    };
+  });
+
+  return {
+    birthRasi: getRasiConfig(birthRasi)?.name ?? UNKNOWN,
+    periods,
+  };
+}
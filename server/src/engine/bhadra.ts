@@ -0,0 +1,98 @@
+/**
+ * Bhadra (Vishti Karana) Calculator
+ *
+ * Finds every Vishti karana overlapping the panchangam day, with where
+ * Bhadra dwells (from the Moon's rasi) and its face, middle and tail.
+ */
+
+import { DateTime } from 'luxon';
+import { BhadraPart, BhadraPeriod } from '../types/panchangam.js';
+import { getMoonLongitude } from './swisseph.js';
+import { findSegmentSpans } from './events.js';
+import { getElongation } from './tithi.js';
+import { KARANA_SPAN, getKaranaByNumber } from '../config/karana.js';
+import { getRasiIndex } from '../config/rasi.js';
+import {
+  VISHTI_KARANA_INDEX,
+  BHADRA_NAME,
+  BHADRA_GHATIS,
+  BHADRA_PARTS,
+  getBhadraLoka,
+} from '../config/bhadra.js';
+import { julianDayToDateTime, formatTimeShort, createTimestamp } from '../utils/datetime.js';
+
+// Longer than any karana (about 0.55 day at most)
+const LOOKAROUND_DAYS = 1;
+
+/**
+ * Format a span of time relative to sunrise.
+ */
+function formatSpan(startJD: number, endJD: number, sunriseTime: DateTime, timezone: string) {
+  const startTime = julianDayToDateTime(startJD, timezone);
+  const endTime = julianDayToDateTime(endJD, timezone);
+  return {
+    start: formatTimeShort(startTime),
+    end: formatTimeShort(endTime),
+    startAt: createTimestamp(startTime, sunriseTime, formatTimeShort),
+    endAt: createTimestamp(endTime, sunriseTime, formatTimeShort),
+  };
+}
+
+/**
+ * Divide a Bhadra into its parts by ghatis of its actual duration.
+ */
+function getBhadraParts(
+  startJD: number,
+  endJD: number,
+  sunriseTime: DateTime,
+  timezone: string
+): BhadraPart[] {
+  const ghati = (endJD - startJD) / BHADRA_GHATIS;
+  let partStartJD = startJD;
+
+  return BHADRA_PARTS.map((part): BhadraPart => {
+    const partEndJD = partStartJD + part.ghatis * ghati;
+    const period = {
+      id: part.id,
+      name: part.name,
+      nature: part.nature,
+      ...formatSpan(partStartJD, partEndJD, sunriseTime, timezone),
+    };
+    partStartJD = partEndJD;
+    return period;
+  });
+}
+
+/**
+ * Calculate the Bhadra periods overlapping sunrise to the next sunrise.
+ *
+ * @param sunriseJD - Julian Day of sunrise
+ * @param nextSunriseJD - Julian Day of the next sunrise
+ * @param timezone - Timezone for formatting times
+ * @returns Bhadra periods in time order, each in full
+ */
+export function calculateBhadra(
+  sunriseJD: number,
+  nextSunriseJD: number,
+  timezone: string
+): BhadraPeriod[] {
+  const karanaSpans = findSegmentSpans(sunriseJD, nextSunriseJD, KARANA_SPAN, getElongation, LOOKAROUND_DAYS);
+  const sunriseTime = julianDayToDateTime(sunriseJD, timezone);
+  const periods: BhadraPeriod[] = [];
+
+  for (const span of karanaSpans) {
+    if (getKaranaByNumber(span.index).index !== VISHTI_KARANA_INDEX) {
+      continue;
+    }
+
+    const loka = getBhadraLoka(getRasiIndex(getMoonLongitude(span.startJD)));
+    periods.push({
+      name: BHADRA_NAME,
+      ...formatSpan(span.startJD, span.endJD, sunriseTime, timezone),
+      loka: { id: loka.id, name: loka.name, nature: loka.nature },
+      parts: getBhadraParts(span.startJD, span.endJD, sunriseTime, timezone),
+    });
+  }
+
+  return periods;
+}
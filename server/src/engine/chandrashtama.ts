@@ -5,32 +5,83 @@
  * when the transiting Moon is in the 8th sign from one's birth Moon sign.
  *
  * This occurs approximately every 27-28 days and lasts about 2.5 days.
+ * While the Moon is in a rasi, every birth nakshatra (pada) whose Moon
+ * rasi it is the 8th from is under Chandrashtama.
  */
 
-import { ChandrashtamaInfo, BilingualText } from '../types/panchangam.js';
-import { getMoonLongitude, findAngleCrossing } from './swisseph.js';
+import {
+  ChandrashtamaInfo,
+  ChandrashtamaWindow,
+  ChandrashtamaNakshatra,
+  ChandrashtamaNakshatras,
+  BilingualText,
+} from '../types/panchangam.js';
+import { getMoonLongitude } from './swisseph.js';
+import {
+  findAngleCrossings,
+  findSegmentSpans,
+  findNextAngleCrossing,
+  findPreviousAngleCrossing,
+} from './events.js';
 import { getNakshatraByName, getNakshatraConfig, NAKSHATRA_SPAN, NAKSHATRAS } from '../config/nakshatra.js';
 import { getRasiIndex, getRasiConfig, RASI_SPAN, RASIS } from '../config/rasi.js';
-import { julianDayToDateTime, formatTimeShort } from '../utils/datetime.js';
+import { julianDayToDateTime, formatTime, formatTimeShort, createTimestamp } from '../utils/datetime.js';
+
+// Longer than the Moon's stay in a rasi, so a window in progress is found in full
+const WINDOW_LOOKAROUND_DAYS = 3;
+
+const PADAS_PER_NAKSHATRA = 4;
+
+const UNKNOWN: BilingualText = { en: 'Unknown', ta: 'அறியாத' };
 
 /**
  * Calculate the birth Moon Rasi from birth Nakshatra.
- * Each nakshatra falls within a specific rasi.
+ * Each pada falls within a specific rasi; a nakshatra split between two
+ * rasis (Krittika, Mrigashira, Punarvasu...) is placed by its pada.
  *
  * @param birthNakshatra - Birth nakshatra name (English or Tamil)
+ * @param pada - Birth pada (1-4), the first by default
  * @returns Rasi index (1-12) or null if nakshatra not found
  */
-export function getBirthMoonRasi(birthNakshatra: string): number | null {
+export function getBirthMoonRasi(birthNakshatra: string, pada: number = 1): number | null {
   const nakshatra = getNakshatraByName(birthNakshatra);
   if (!nakshatra) {
     return null;
   }
 
-  // The rasi is determined by the nakshatra's starting degree
-  const rasiIndex = getRasiIndex(nakshatra.startDegree);
+  // The rasi is determined by the middle of the pada
+  const padaSpan = NAKSHATRA_SPAN / PADAS_PER_NAKSHATRA;
+  const rasiIndex = getRasiIndex(nakshatra.startDegree + (pada - 0.5) * padaSpan);
   return rasiIndex;
 }
 
+/**
+ * Get the Chandrashtama rasi (8th house) for a birth Moon rasi.
+ *
+ * @param birthMoonRasi - Birth Moon Rasi index (1-12)
+ * @returns Rasi index (1-12)
+ */
+export function getChandrashtamaRasi(birthMoonRasi: number): number {
+  return ((birthMoonRasi - 1 + 7) % 12) + 1;
+}
+
+/**
+ * Get every birth nakshatra with a pada in a birth Moon rasi.
+ */
+function getBirthNakshatras(birthMoonRasi: number): ChandrashtamaNakshatra[] {
+  const nakshatras: ChandrashtamaNakshatra[] = [];
+
+  for (const nakshatra of NAKSHATRAS) {
+    const padas = Array.from({ length: PADAS_PER_NAKSHATRA }, (_, i) => i + 1)
+      .filter(pada => getBirthMoonRasi(nakshatra.name.en, pada) === birthMoonRasi);
+    if (padas.length > 0) {
+      nakshatras.push({ nakshatra: nakshatra.name, padas });
+    }
+  }
+
+  return nakshatras;
+}
+
 /**
  * Check if Chandrashtama is active for a given time.
  * Chandrashtama occurs when Moon transits the 8th sign from birth Moon sign.
@@ -47,7 +98,7 @@ export function isChandrashtamaActive(
   const currentMoonRasi = getRasiIndex(moonLongitude);
 
   // 8th house from birth rasi
-  const chandrashtamaRasi = ((birthMoonRasi - 1 + 7) % 12) + 1;
+  const chandrashtamaRasi = getChandrashtamaRasi(birthMoonRasi);
 
   return currentMoonRasi === chandrashtamaRasi;
 }
@@ -72,7 +123,7 @@ export function calculateChandrashtama(
   }
 
   // Calculate the 8th house (chandrashtama rasi)
-  const chandrashtamaRasi = ((birthMoonRasi - 1 + 7) % 12) + 1;
+  const chandrashtamaRasi = getChandrashtamaRasi(birthMoonRasi);
   const chandrashtamaRasiConfig = getRasiConfig(chandrashtamaRasi);
 
   // Check if currently active
@@ -92,21 +143,19 @@ export function calculateChandrashtama(
   const chandrashtamaEnd = chandrashtamaStart + RASI_SPAN;
 
   // Find start time (when Moon entered this rasi)
-  const startJD = findAngleCrossing(
-    julianDay - 3,  // Search up to 3 days back
+  const startJD = findPreviousAngleCrossing(
     julianDay,
     chandrashtamaStart,
     getMoonLongitude,
-    0.01
+    3  // Search up to 3 days back
   );
 
   // Find end time (when Moon will leave this rasi)
-  const endJD = findAngleCrossing(
+  const endJD = findNextAngleCrossing(
     julianDay,
-    julianDay + 3,  // Search up to 3 days forward
     chandrashtamaEnd % 360,
     getMoonLongitude,
-    0.01
+    3  // Search up to 3 days forward
   );
 
   const startTime = julianDayToDateTime(startJD, timezone);
@@ -116,7 +165,105 @@ export function calculateChandrashtama(
     isActive: true,
     startTime: formatTimeShort(startTime),
     endTime: formatTimeShort(endTime),
+    startAt: createTimestamp(startTime, julianDayToDateTime(julianDay, timezone), formatTimeShort),
+    endAt: createTimestamp(endTime, julianDayToDateTime(julianDay, timezone), formatTimeShort),
     birthNakshatra: birthNakshatraConfig?.name ?? { en: birthNakshatra, ta: birthNakshatra },
-    currentMoonRasi: chandrashtamaRasiConfig?.name ?? { en: 'Unknown', ta: 'அறியாத' },
+    currentMoonRasi: chandrashtamaRasiConfig?.name ?? UNKNOWN,
   };
 }
+
+/**
+ * Find every Chandrashtama window overlapping a time range.
+ * The Moon's entry into and exit from the 8th rasi are solved directly,
+ * so a window in progress at either end of the range is returned in full.
+ *
+ * @param startJD - Start of the range
+ * @param endJD - End of the range
+ * @param birthNakshatra - Birth nakshatra name (English or Tamil)
+ * @param timezone - Timezone for formatting; day offsets are counted from the day of startJD
+ * @returns Windows in time order, or null if the nakshatra is not found
+ */
+export function findChandrashtamaWindows(
+  startJD: number,
+  endJD: number,
+  birthNakshatra: string,
+  timezone: string
+): ChandrashtamaWindow[] | null {
+  const birthMoonRasi = getBirthMoonRasi(birthNakshatra);
+  if (!birthMoonRasi) {
+    return null;  // Invalid nakshatra
+  }
+
+  const chandrashtamaRasi = getChandrashtamaRasi(birthMoonRasi);
+  const entryDegree = getRasiConfig(chandrashtamaRasi)?.startDegree ?? 0;
+  const exitDegree = (entryDegree + RASI_SPAN) % 360;
+
+  const crossings = findAngleCrossings(
+    startJD - WINDOW_LOOKAROUND_DAYS,
+    endJD + WINDOW_LOOKAROUND_DAYS,
+    [entryDegree, exitDegree],
+    getMoonLongitude
+  );
+
+  const reference = julianDayToDateTime(startJD, timezone);
+  const windows: ChandrashtamaWindow[] = [];
+  for (let i = 0; i < crossings.length - 1; i++) {
+    const entry = crossings[i]!;
+    const exit = crossings[i + 1]!;
+    // The Moon always moves forward: each entry is followed by its exit
+    if (entry.target !== entryDegree || exit.target !== exitDegree) {
+      continue;
+    }
+    if (exit.jd <= startJD || entry.jd >= endJD) {
+      continue;
+    }
+
+    const startTime = julianDayToDateTime(entry.jd, timezone);
+    const endTime = julianDayToDateTime(exit.jd, timezone);
+    windows.push({
+      startAt: createTimestamp(startTime, reference, formatTime),
+      endAt: createTimestamp(endTime, reference, formatTime),
+      durationHours: Math.round((exit.jd - entry.jd) * 24 * 100) / 100,
+    });
+  }
+
+  return windows;
+}
+
+/**
+ * Calculate the birth nakshatras under Chandrashtama from sunrise to the
+ * next sunrise, one entry for each rasi the Moon passes through.
+ *
+ * @param sunriseJD - Julian Day of sunrise
+ * @param nextSunriseJD - Julian Day of the next sunrise
+ * @param timezone - Timezone for formatting
+ * @returns Entries in time order
+ */
+export function calculateDailyChandrashtama(
+  sunriseJD: number,
+  nextSunriseJD: number,
+  timezone: string
+): ChandrashtamaNakshatras[] {
+  const rasiSpans = findSegmentSpans(sunriseJD, nextSunriseJD, RASI_SPAN, getMoonLongitude, WINDOW_LOOKAROUND_DAYS);
+  const sunriseTime = julianDayToDateTime(sunriseJD, timezone);
+  const entries: ChandrashtamaNakshatras[] = [];
+
+  for (const span of rasiSpans) {
+    const moonRasi = span.index;
+    const birthRasi = RASIS.find(rasi => getChandrashtamaRasi(rasi.index) === moonRasi);
+    const startTime = julianDayToDateTime(span.startJD, timezone);
+    const endTime = julianDayToDateTime(span.endJD, timezone);
+
+    entries.push({
+      moonRasi: getRasiConfig(moonRasi)?.name ?? UNKNOWN,
+      birthRasi: birthRasi?.name ?? UNKNOWN,
+      nakshatras: birthRasi ? getBirthNakshatras(birthRasi.index) : [],
+      start: formatTimeShort(startTime),
+      end: formatTimeShort(endTime),
+      startAt: createTimestamp(startTime, sunriseTime, formatTimeShort),
+      endAt: createTimestamp(endTime, sunriseTime, formatTimeShort),
+    });
+  }
+
+  return entries;
+}
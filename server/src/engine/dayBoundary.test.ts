@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { calculateDayBoundaries, DEFAULT_DAY_BOUNDARY_OPTIONS } from './dayBoundary.js';
+import { calculatePanchangam } from '../services/panchangamService.js';
+import { HighLatitudePolicy } from '../types/panchangam.js';
+
+// Tromsø, Norway: beyond the Arctic Circle
+const TROMSO = { latitude: 69.6492, longitude: 18.9553, timezone: 'Europe/Oslo' };
+
+function getBoundaries(date: string, policy: HighLatitudePolicy) {
+  const options = { ...DEFAULT_DAY_BOUNDARY_OPTIONS, highLatitudePolicy: policy };
+  return calculateDayBoundaries(date, TROMSO.latitude, TROMSO.longitude, TROMSO.timezone, options);
+}
+
+describe('calculateDayBoundaries', () => {
+  it('gives a 12-hour day and a 12-hour night under the midnight sun', () => {
+    const { sunriseJD, sunsetJD, info } = getBoundaries('2025-06-21', 'midnight-sun');
+    const { sunriseJD: nextSunriseJD } = getBoundaries('2025-06-22', 'midnight-sun');
+    expect(info.condition).toBe('midnight-sun');
+    expect(info.isConventional).toBe(true);
+    expect(sunsetJD - sunriseJD).toBeCloseTo(0.5, 6);
+    expect(nextSunriseJD - sunsetJD).toBeCloseTo(0.5, 2);
+  });
+
+  it('gives a 12-hour day in polar night', () => {
+    const { sunriseJD, sunsetJD, info } = getBoundaries('2025-12-21', 'midnight-sun');
+    expect(info.condition).toBe('polar-night');
+    expect(sunsetJD - sunriseJD).toBeCloseTo(0.5, 6);
+  });
+
+  it('borrows the sunrise of the nearest latitude that has one', () => {
+    const { info } = getBoundaries('2025-12-21', 'nearest-latitude');
+    expect(info.condition).toBe('polar-night');
+    expect(Math.abs(info.effectiveLatitude)).toBeLessThan(TROMSO.latitude);
+  });
+
+  it('steps towards the equator from the south pole without crossing it', () => {
+    const options = { ...DEFAULT_DAY_BOUNDARY_OPTIONS, highLatitudePolicy: 'nearest-latitude' as const };
+    const { info } = calculateDayBoundaries('2025-06-21', -90, 0, 'UTC', options);
+    expect(info.effectiveLatitude).toBeLessThan(-60);
+    expect(info.effectiveLatitude).toBeGreaterThan(-70);
+  });
+});
+
+describe('calculatePanchangam at high latitudes', () => {
+  const cases: [string, HighLatitudePolicy][] = [
+    ['2025-12-21', 'nearest-latitude'],
+    ['2025-12-21', 'midnight-sun'],
+    ['2025-06-21', 'midnight-sun'],
+  ];
+
+  it.each(cases)('calculates %s with the %s policy', async (date, highLatitudePolicy) => {
+    const result = await calculatePanchangam({ date, ...TROMSO, highLatitudePolicy });
+
+    expect(result.lagnam.length).toBeGreaterThan(0);
+    expect(result.inauspiciousPeriods.rahuKalam.start).not.toBe(result.inauspiciousPeriods.rahuKalam.end);
+    expect(result.hora.periods).toHaveLength(24);
+  });
+
+  it('divides a real night under the midnight sun', async () => {
+    const result = await calculatePanchangam({
+      date: '2025-06-21', ...TROMSO, highLatitudePolicy: 'midnight-sun', includeChoghadiya: true, includeMuhurtas: true,
+    });
+    const nightPeriods = [
+      ...result.auspiciousPeriods.nightGowriNeram,
+      ...result.hora.periods.slice(12),
+      ...(result.choghadiya?.night ?? []),
+      ...(result.muhurtas?.night ?? []),
+    ];
+
+    expect(nightPeriods).toHaveLength(8 + 12 + 8 + 15);
+    for (const period of nightPeriods) {
+      expect(Date.parse(period.endAt.iso) - Date.parse(period.startAt.iso)).toBeGreaterThan(30 * 60 * 1000);
+    }
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Day Boundary Calculator
+ *
+ * Resolves the sunrise and sunset that start and divide the panchangam day.
+ * Above the polar circles the Sun may not rise (polar night) or set
+ * (midnight sun) on a given date; a high-latitude policy then decides
+ * which conventional boundaries are used, and the result says so.
+ */
+
+import {
+  DayBoundaryInfo,
+  DayBoundaryOptions,
+  HighLatitudePolicy,
+  SunCondition,
+} from '../types/panchangam.js';
+import {
+  calculateSunrise,
+  calculateSunset,
+  calculateSolarNoon,
+  isSunAboveHorizon,
+  DEFAULT_SUNRISE_OPTIONS,
+} from './swisseph.js';
+import { createDateTime, dateToJulianDay } from '../utils/datetime.js';
+import { dateTimeToJulianDay } from '../utils/timescale.js';
+
+export const DEFAULT_HIGH_LATITUDE_POLICY: HighLatitudePolicy = 'nearest-latitude';
+
+export const DEFAULT_DAY_BOUNDARY_OPTIONS: DayBoundaryOptions = {
+  ...DEFAULT_SUNRISE_OPTIONS,
+  highLatitudePolicy: DEFAULT_HIGH_LATITUDE_POLICY,
+};
+
+// Step towards the equator when searching for the nearest latitude with a sunrise
+const LATITUDE_STEP = 0.5;
+
+// Local clock times of the fixed-time conventional day
+const FIXED_SUNRISE_HOUR = 6;
+const FIXED_SUNSET_HOUR = 18;
+
+// Half the conventional day of the midnight-sun policy, centred on solar noon (6 hours)
+const SOLAR_HALF_DAY = 0.25;
+
+export interface DayBoundaries {
+  sunriseJD: number;
+  sunsetJD: number;
+  info: DayBoundaryInfo;
+}
+
+/**
+ * Calculate sunrise and sunset at a latitude, or null if either does not occur.
+ */
+function findSunriseSunset(
+  startOfDayJD: number,
+  latitude: number,
+  longitude: number,
+  options: DayBoundaryOptions
+): { sunriseJD: number; sunsetJD: number } | null {
+  const sunriseJD = calculateSunrise(startOfDayJD, latitude, longitude, options);
+  const sunsetJD = calculateSunset(startOfDayJD, latitude, longitude, options);
+
+  if (sunriseJD === null || sunsetJD === null) {
+    return null;
+  }
+  return { sunriseJD, sunsetJD };
+}
+
+/**
+ * Calculate the sunrise and sunset bounding the panchangam day,
+ * applying the high-latitude policy when either does not occur.
+ *
+ * @param dateStr - YYYY-MM-DD
+ * @param options - Sunrise definition, elevation and high-latitude policy
+ * @returns Sunrise/sunset Julian Days and how they were obtained
+ */
+export function calculateDayBoundaries(
+  dateStr: string,
+  latitude: number,
+  longitude: number,
+  timezone: string,
+  options: DayBoundaryOptions = DEFAULT_DAY_BOUNDARY_OPTIONS
+): DayBoundaries {
+  const policy = options.highLatitudePolicy;
+  const startOfDayJD = dateToJulianDay(dateStr, timezone);
+
+  const events = findSunriseSunset(startOfDayJD, latitude, longitude, options);
+  if (events) {
+    return {
+      ...events,
+      info: { condition: 'normal', policy, isConventional: false, effectiveLatitude: latitude },
+    };
+  }
+
+  // The Sun stays up all day if it is above the horizon at noon but does not rise or set
+  const noonJD = calculateSolarNoon(startOfDayJD, longitude);
+  const condition: SunCondition = isSunAboveHorizon(noonJD, latitude, longitude, options)
+    ? 'midnight-sun'
+    : 'polar-night';
+
+  const info: DayBoundaryInfo = { condition, policy, isConventional: true, effectiveLatitude: latitude };
+
+  switch (policy) {
+    case 'nearest-latitude': {
+      // Step towards the equator, ending on it
+      const direction = Math.sign(latitude);
+      const steps = Math.ceil(Math.abs(latitude) / LATITUDE_STEP);
+      for (let i = 1; i <= steps; i++) {
+        const lat = i === steps ? 0 : latitude - direction * i * LATITUDE_STEP;
+        const substitute = findSunriseSunset(startOfDayJD, lat, longitude, options);
+        if (substitute) {
+          return { ...substitute, info: { ...info, effectiveLatitude: lat } };
+        }
+      }
+      throw new Error(`No sunrise found near latitude ${latitude}`);
+    }
+
+    case 'fixed-time': {
+      const day = createDateTime(dateStr, timezone);
+      return {
+        sunriseJD: dateTimeToJulianDay(day.set({ hour: FIXED_SUNRISE_HOUR })),
+        sunsetJD: dateTimeToJulianDay(day.set({ hour: FIXED_SUNSET_HOUR })),
+        info,
+      };
+    }
+
+    case 'midnight-sun':
+      // A 12-hour day around solar noon and a 12-hour night around solar
+      // midnight, whether the Sun stays up or down: a zero-length day or
+      // night would leave its divisions (Gowri, Hora, Choghadiya) empty
+      return { sunriseJD: noonJD - SOLAR_HALF_DAY, sunsetJD: noonJD + SOLAR_HALF_DAY, info };
+  }
+}
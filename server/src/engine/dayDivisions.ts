@@ -0,0 +1,121 @@
+/**
+ * Day Division Calculator
+ *
+ * Divides the day (sunrise to sunset) and the night (sunset to next sunrise)
+ * into equal named periods from configurable tables:
+ * - Muhurtas: 15 by day (Rudra, Ahi, Mitra...) and 15 by night (Girisha...)
+ * - Choghadiya: 8 by day and 8 by night, starting by weekday
+ */
+
+import { DayNightDivision, DivisionConfig, DivisionPeriod } from '../types/panchangam.js';
+import { DAY_MUHURTAS, NIGHT_MUHURTAS } from '../config/muhurta.js';
+import {
+  CHOGHADIYAS,
+  CHOGHADIYAS_PER_HALF,
+  CHOGHADIYA_DAY_START,
+  CHOGHADIYA_NIGHT_START,
+  CHOGHADIYA_DAY_STEP,
+  CHOGHADIYA_NIGHT_STEP,
+} from '../config/choghadiya.js';
+import {
+  julianDayToDateTime,
+  formatTimeShort,
+  getDayOfWeek,
+  createTimestamp,
+  divideTimeRange,
+} from '../utils/datetime.js';
+import { DateTime } from 'luxon';
+
+/**
+ * Divide a time range into equal periods named in order.
+ *
+ * @param configs - Table entry for each period, in time order
+ * @param reference - Time that timestamp day offsets are counted from
+ */
+function dividePeriods(
+  start: DateTime,
+  end: DateTime,
+  configs: DivisionConfig[],
+  reference: DateTime
+): DivisionPeriod[] {
+  return divideTimeRange(start, end, configs.length).map((segment, i) => {
+    const config = configs[i]!;
+    return {
+      index: config.index,
+      name: config.name,
+      nature: config.nature,
+      start: formatTimeShort(segment.start),
+      end: formatTimeShort(segment.end),
+      startAt: createTimestamp(segment.start, reference, formatTimeShort),
+      endAt: createTimestamp(segment.end, reference, formatTimeShort),
+    };
+  });
+}
+
+/**
+ * Get the Choghadiya sequence of a day or night.
+ *
+ * @param startIndex - First Choghadiya (1-7)
+ * @param step - Periods advanced from one Choghadiya to the next
+ */
+function getChoghadiyaSequence(startIndex: number, step: number): DivisionConfig[] {
+  return Array.from({ length: CHOGHADIYAS_PER_HALF }, (_, i) =>
+    CHOGHADIYAS[(startIndex - 1 + i * step) % CHOGHADIYAS.length]!
+  );
+}
+
+/**
+ * Calculate the 15 day and 15 night muhurtas.
+ *
+ * @param sunriseJD - Julian Day of sunrise
+ * @param sunsetJD - Julian Day of sunset
+ * @param nextSunriseJD - Julian Day of the next sunrise
+ * @param timezone - Timezone string
+ * @returns Day and night muhurtas in time order
+ */
+export function calculateMuhurtaDivision(
+  sunriseJD: number,
+  sunsetJD: number,
+  nextSunriseJD: number,
+  timezone: string
+): DayNightDivision {
+  const sunriseTime = julianDayToDateTime(sunriseJD, timezone);
+  const sunsetTime = julianDayToDateTime(sunsetJD, timezone);
+  const nextSunriseTime = julianDayToDateTime(nextSunriseJD, timezone);
+
+  return {
+    day: dividePeriods(sunriseTime, sunsetTime, DAY_MUHURTAS, sunriseTime),
+    night: dividePeriods(sunsetTime, nextSunriseTime, NIGHT_MUHURTAS, sunriseTime),
+  };
+}
+
+/**
+ * Calculate the 8 day and 8 night Choghadiyas.
+ *
+ * @param sunriseJD - Julian Day of sunrise
+ * @param sunsetJD - Julian Day of sunset
+ * @param nextSunriseJD - Julian Day of the next sunrise
+ * @param dateStr - Date string (YYYY-MM-DD)
+ * @param timezone - Timezone string
+ * @returns Day and night Choghadiyas in time order
+ */
+export function calculateChoghadiya(
+  sunriseJD: number,
+  sunsetJD: number,
+  nextSunriseJD: number,
+  dateStr: string,
+  timezone: string
+): DayNightDivision {
+  const sunriseTime = julianDayToDateTime(sunriseJD, timezone);
+  const sunsetTime = julianDayToDateTime(sunsetJD, timezone);
+  const nextSunriseTime = julianDayToDateTime(nextSunriseJD, timezone);
+  const dayOfWeek = getDayOfWeek(dateStr, timezone);
+
+  const daySequence = getChoghadiyaSequence(CHOGHADIYA_DAY_START[dayOfWeek] ?? 1, CHOGHADIYA_DAY_STEP);
+  const nightSequence = getChoghadiyaSequence(CHOGHADIYA_NIGHT_START[dayOfWeek] ?? 1, CHOGHADIYA_NIGHT_STEP);
+
+  return {
+    day: dividePeriods(sunriseTime, sunsetTime, daySequence, sunriseTime),
+    night: dividePeriods(sunsetTime, nextSunriseTime, nightSequence, sunriseTime),
+  };
+}
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { findUgadiDate, calculateEraYears } from './eras.js';
+
+const CHENNAI = { latitude: 13.0827, longitude: 80.2707, timezone: 'Asia/Kolkata' };
+
+describe('findUgadiDate', () => {
+  it.each([
+    [2025, '2025-03-30'],
+    [2026, '2026-03-19'],
+    [999, '0999-03-26'],
+    [6000, '6000-05-30'],  // Mesha Sankranti has drifted into June
+  ])('finds Ugadi %i on %s', (year, expected) => {
+    expect(findUgadiDate(year, CHENNAI.latitude, CHENNAI.longitude, CHENNAI.timezone)).toBe(expected);
+  });
+});
+
+describe('calculateEraYears', () => {
+  it('numbers the years of 2025 after Ugadi', () => {
+    expect(calculateEraYears('2025-06-01', 2025, 1, CHENNAI.latitude, CHENNAI.longitude, CHENNAI.timezone))
+      .toEqual({ kaliYuga: 5126, shalivahanaShaka: 1947, vikramaSamvat: 2082, thiruvalluvar: 2056 });
+  });
+
+  it('numbers the years of a date before 1000', () => {
+    const eras = calculateEraYears('0999-06-01', 999, 1, CHENNAI.latitude, CHENNAI.longitude, CHENNAI.timezone);
+    expect(eras.kaliYuga).toBe(4100);
+    expect(eras.shalivahanaShaka).toBe(921);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Era Year Calculator
+ *
+ * Each era used in the panchangam begins its year on a different day:
+ * - Kali Yuga and the samvatsara: Mesha Sankranti (Chithirai 1, solar).
+ * - Shalivahana Shaka and Vikrama Samvat: Chaitra Shukla Pratipada (Ugadi,
+ *   lunisolar), the first day of the lunar month in which Mesha Sankranti falls.
+ * - Thiruvalluvar: Thai 1 (Makara Sankranti), as adopted in Tamil Nadu.
+ */
+
+import { DayBoundaryOptions, EraYears } from '../types/panchangam.js';
+import { getSunLongitude, getAyanamsa, getSiderealMode } from './swisseph.js';
+import { findNextAngleCrossing, findPreviousAngleCrossing } from './events.js';
+import { getElongation } from './tithi.js';
+import { calculateDayBoundaries, DEFAULT_DAY_BOUNDARY_OPTIONS } from './dayBoundary.js';
+import { TITHI_SPAN } from '../config/tithi.js';
+import {
+  KALI_YUGA_OFFSET,
+  SHALIVAHANA_SHAKA_OFFSET,
+  VIKRAMA_SAMVAT_OFFSET,
+  THIRUVALLUVAR_OFFSET,
+} from '../config/tamilCalendar.js';
+import { createDateTime, dateToJulianDay, formatISODate, julianDayToDateTime } from '../utils/datetime.js';
+import { createLruCache } from '../utils/lruCache.js';
+
+// Thai is the tenth Tamil month (0-based index 9)
+const THAI_MONTH_INDEX = 9;
+
+// Two years for each of a few dozen recent locations and settings
+const UGADI_CACHE_SIZE = 64;
+
+const ugadiCache = createLruCache<string>(UGADI_CACHE_SIZE);
+
+/**
+ * Find the date of Chaitra Shukla Pratipada (Ugadi) in a Gregorian year:
+ * the day on whose sunrise the first tithi after the new moon preceding
+ * Mesha Sankranti prevails, or the day it begins if it is kshaya.
+ *
+ * @returns YYYY-MM-DD
+ */
+export function findUgadiDate(
+  year: number,
+  latitude: number,
+  longitude: number,
+  timezone: string,
+  options: DayBoundaryOptions = DEFAULT_DAY_BOUNDARY_OPTIONS
+): string {
+  // Mesha Sankranti drifts through the year over the millennia, so search from 1 January
+  const searchStartJD = dateToJulianDay(formatISODate(year, 1, 1), timezone);
+
+  const cacheKey = [
+    year, latitude, longitude, timezone, JSON.stringify(options),
+    getSiderealMode(), getAyanamsa(searchStartJD),
+  ].join('|');
+  const cached = ugadiCache.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const meshaSankrantiJD = findNextAngleCrossing(searchStartJD, 0, getSunLongitude, 366, { step: 5 });
+  const newMoonJD = findPreviousAngleCrossing(meshaSankrantiJD, 0, getElongation, 31);
+
+  const newMoonDate = julianDayToDateTime(newMoonJD, timezone).toISODate() ?? '';
+  const nextDate = createDateTime(newMoonDate, timezone).plus({ days: 1 }).toISODate() ?? newMoonDate;
+
+  let ugadiDate = nextDate;
+  const { sunriseJD } = calculateDayBoundaries(newMoonDate, latitude, longitude, timezone, options);
+  if (newMoonJD <= sunriseJD) {
+    ugadiDate = newMoonDate;
+  } else {
+    const { sunriseJD: nextSunriseJD } =
+      calculateDayBoundaries(nextDate, latitude, longitude, timezone, options);
+    const pratipadaEndJD = findNextAngleCrossing(newMoonJD, TITHI_SPAN, getElongation, 2);
+    if (pratipadaEndJD <= nextSunriseJD) {
+      ugadiDate = newMoonDate;
+    }
+  }
+
+  ugadiCache.set(cacheKey, ugadiDate);
+  return ugadiDate;
+}
+
+/**
+ * Calculate the era year numbers for a date.
+ *
+ * @param dateStr - YYYY-MM-DD
+ * @param tamilYear - Gregorian year in which the current Tamil year began
+ * @param tamilMonthIndex - Current Tamil month (0 = Chithirai)
+ */
+export function calculateEraYears(
+  dateStr: string,
+  tamilYear: number,
+  tamilMonthIndex: number,
+  latitude: number,
+  longitude: number,
+  timezone: string,
+  options: DayBoundaryOptions = DEFAULT_DAY_BOUNDARY_OPTIONS
+): EraYears {
+  const gregorianYear = parseInt(dateStr.slice(0, 4), 10);
+
+  // Ugadi falls once a Gregorian year, so the lunisolar year began either
+  // this Gregorian year or the one before
+  const ugadiDate = findUgadiDate(gregorianYear, latitude, longitude, timezone, options);
+  const lunisolarYear = dateStr >= ugadiDate ? gregorianYear : gregorianYear - 1;
+
+  // Thai, Maasi and Panguni fall in the Gregorian year after Chithirai
+  const thiruvalluvarYear = tamilMonthIndex >= THAI_MONTH_INDEX ? tamilYear + 1 : tamilYear;
+
+  return {
+    kaliYuga: tamilYear + KALI_YUGA_OFFSET,
+    shalivahanaShaka: lunisolarYear + SHALIVAHANA_SHAKA_OFFSET,
+    vikramaSamvat: lunisolarYear + VIKRAMA_SAMVAT_OFFSET,
+    thiruvalluvar: thiruvalluvarYear + THIRUVALLUVAR_OFFSET,
+  };
+}
@@ -0,0 +1,248 @@
+/**
+ * Event Solver
+ *
+ * Finds the times at which a wrapped angle (0-360°) crosses target values,
+ * e.g. the Moon-Sun elongation crossing a tithi boundary.
+ *
+ * A search window is stepped at a fixed interval; every sign change of
+ * (angle - target) between two samples brackets a crossing, which is then
+ * refined with the Illinois variant of regula falsi. Each angle is evaluated
+ * once per sample, so several targets (all nakshatra boundaries, say) cost
+ * no more than one. All crossings in the window are returned in time order,
+ * which makes skipped (kshaya) and repeated elements explicit.
+ */
+
+export interface AngleCrossing {
+  jd: number;             // Julian Day of the crossing
+  target: number;         // Target angle that was crossed (degrees)
+  direction: 1 | -1;      // 1 if the angle was increasing, -1 if decreasing
+}
+
+export interface SegmentSpan {
+  index: number;          // 1-based segment (tithi, nakshatra, rasi, ...)
+  startJD: number;
+  endJD: number;
+}
+
+export interface EventSearchOptions {
+  step?: number;          // Sampling interval in days
+  precision?: number;     // Time precision of each crossing in days
+}
+
+// Quarter-day sampling is well below the shortest karana (~ 0.4 day)
+const DEFAULT_STEP = 0.25;
+
+// About one second
+const DEFAULT_PRECISION = 1 / 86400;
+
+const MAX_REFINE_ITERATIONS = 60;
+
+/**
+ * Difference between two angles, wrapped into [-180, 180).
+ */
+function wrapDifference(angle: number, target: number): number {
+  return ((angle - target) % 360 + 540) % 360 - 180;
+}
+
+/**
+ * Refine a bracketed crossing (f(a) and f(b) of opposite sign).
+ * Illinois regula falsi; keeps the function values of the bracket ends.
+ */
+function refineCrossing(
+  a: number,
+  fa: number,
+  b: number,
+  fb: number,
+  f: (jd: number) => number,
+  precision: number
+): number {
+  let side = 0;
+
+  for (let i = 0; i < MAX_REFINE_ITERATIONS && b - a > precision; i++) {
+    const c = (a * fb - b * fa) / (fb - fa);
+    const fc = f(c);
+
+    if (fc === 0) {
+      return c;
+    }
+
+    if ((fc < 0) === (fb < 0)) {
+      b = c;
+      fb = fc;
+      if (side === 1) fa /= 2;
+      side = 1;
+    } else {
+      a = c;
+      fa = fc;
+      if (side === -1) fb /= 2;
+      side = -1;
+    }
+  }
+
+  return (a * fb - b * fa) / (fb - fa);
+}
+
+/**
+ * Find every crossing of the target angles between startJD and endJD.
+ *
+ * @param startJD - Start of the search window
+ * @param endJD - End of the search window
+ * @param targets - Target angle or angles in degrees
+ * @param getAngle - Angle (0-360) as a function of Julian Day
+ * @param options - Sampling step and time precision
+ * @param limit - Stop after this many crossings
+ * @returns Crossings in time order
+ */
+export function findAngleCrossings(
+  startJD: number,
+  endJD: number,
+  targets: number | number[],
+  getAngle: (jd: number) => number,
+  options: EventSearchOptions = {},
+  limit: number = Infinity
+): AngleCrossing[] {
+  const step = options.step ?? DEFAULT_STEP;
+  const precision = options.precision ?? DEFAULT_PRECISION;
+  const targetList = Array.isArray(targets) ? targets : [targets];
+  const crossings: AngleCrossing[] = [];
+
+  let prevJD = startJD;
+  let prevAngle = getAngle(prevJD);
+
+  while (prevJD < endJD && crossings.length < limit) {
+    const jd = Math.min(prevJD + step, endJD);
+    const angle = getAngle(jd);
+    const found: AngleCrossing[] = [];
+
+    for (const target of targetList) {
+      const before = wrapDifference(prevAngle, target);
+      const after = wrapDifference(angle, target);
+
+      // A jump of 180° or more is the far side of the circle, not the target
+      if ((before < 0) === (after < 0) || Math.abs(after - before) >= 180) {
+        continue;
+      }
+
+      const crossingJD = refineCrossing(
+        prevJD, before, jd, after,
+        (t) => wrapDifference(getAngle(t), target),
+        precision
+      );
+      found.push({ jd: crossingJD, target, direction: after > before ? 1 : -1 });
+    }
+
+    found.sort((x, y) => x.jd - y.jd);
+    crossings.push(...found);
+
+    prevJD = jd;
+    prevAngle = angle;
+  }
+
+  return crossings.slice(0, limit);
+}
+
+/**
+ * Find every boundary crossing of an angle divided into equal segments
+ * (tithis, nakshatras, rasis, ...).
+ *
+ * @param span - Segment width in degrees
+ * @returns Crossings in time order; `target` is the boundary crossed
+ */
+export function findSegmentCrossings(
+  startJD: number,
+  endJD: number,
+  span: number,
+  getAngle: (jd: number) => number,
+  options: EventSearchOptions = {}
+): AngleCrossing[] {
+  const boundaries = Array.from({ length: Math.round(360 / span) }, (_, i) => i * span);
+  return findAngleCrossings(startJD, endJD, boundaries, getAngle, options);
+}
+
+/**
+ * Find the segments of an angle occupied during a time range, each with its
+ * full start and end, even where they extend beyond the range.
+ *
+ * @param span - Segment width in degrees
+ * @param lookaroundDays - Search margin on either side; longer than any one segment
+ * @returns Spans in time order; `index` is the 1-based segment occupied
+ */
+export function findSegmentSpans(
+  startJD: number,
+  endJD: number,
+  span: number,
+  getAngle: (jd: number) => number,
+  lookaroundDays: number,
+  options: EventSearchOptions = {}
+): SegmentSpan[] {
+  const segmentCount = Math.round(360 / span);
+  const crossings = findSegmentCrossings(
+    startJD - lookaroundDays,
+    endJD + lookaroundDays,
+    span,
+    getAngle,
+    options
+  );
+
+  const spans: SegmentSpan[] = [];
+  for (let i = 0; i < crossings.length - 1; i++) {
+    const start = crossings[i]!;
+    const end = crossings[i + 1]!;
+    if (end.jd <= startJD || start.jd >= endJD) {
+      continue;
+    }
+
+    // Crossing a boundary forwards enters the segment after it, backwards the one before
+    const boundary = Math.round(start.target / span);
+    const segment = start.direction === 1 ? boundary : boundary - 1;
+    const index = ((segment % segmentCount) + segmentCount) % segmentCount + 1;
+    spans.push({ index, startJD: start.jd, endJD: end.jd });
+  }
+
+  return spans;
+}
+
+/**
+ * Find the first crossing of a target angle after a given time.
+ *
+ * @param maxDays - Length of the search window
+ * @throws If the angle does not reach the target within the window
+ */
+export function findNextAngleCrossing(
+  startJD: number,
+  targetAngle: number,
+  getAngle: (jd: number) => number,
+  maxDays: number,
+  options: EventSearchOptions = {}
+): number {
+  const [crossing] = findAngleCrossings(
+    startJD, startJD + maxDays, targetAngle, getAngle, options, 1
+  );
+  if (!crossing) {
+    throw new Error(`Angle ${targetAngle}° not reached within ${maxDays} days`);
+  }
+  return crossing.jd;
+}
+
+/**
+ * Find the last crossing of a target angle before a given time.
+ *
+ * @param maxDays - Length of the search window
+ * @throws If the angle did not reach the target within the window
+ */
+export function findPreviousAngleCrossing(
+  endJD: number,
+  targetAngle: number,
+  getAngle: (jd: number) => number,
+  maxDays: number,
+  options: EventSearchOptions = {}
+): number {
+  const crossings = findAngleCrossings(
+    endJD - maxDays, endJD, targetAngle, getAngle, options
+  );
+  const crossing = crossings[crossings.length - 1];
+  if (!crossing) {
+    throw new Error(`Angle ${targetAngle}° not reached within ${maxDays} days`);
+  }
+  return crossing.jd;
+}
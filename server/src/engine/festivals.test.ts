@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { getMatchingFestivals, FestivalDay } from './festivals.js';
+import { calculateDayBoundaries } from './dayBoundary.js';
+import { calculatePanchangam } from '../services/panchangamService.js';
+
+const CHENNAI = { latitude: 13.0827, longitude: 80.2707, timezone: 'Asia/Kolkata' };
+
+async function getFestivalNames(date: string): Promise<string[]> {
+  const result = await calculatePanchangam({ date, ...CHENNAI });
+  return result.festivals.map(festival => festival.name.en);
+}
+
+function getFestivalDay(date: string, nextDate: string, tamilMonthIndex: number): FestivalDay {
+  const { sunriseJD, sunsetJD } = calculateDayBoundaries(date, CHENNAI.latitude, CHENNAI.longitude, CHENNAI.timezone);
+  const { sunriseJD: nextSunriseJD } =
+    calculateDayBoundaries(nextDate, CHENNAI.latitude, CHENNAI.longitude, CHENNAI.timezone);
+  return { sunriseJD, sunsetJD, nextSunriseJD, tamilMonthIndex };
+}
+
+describe('getMatchingFestivals', () => {
+  it.each([
+    ['2025-01-13', 'Bhogi'],
+    ['2025-01-14', 'Pongal'],
+    ['2025-01-15', 'Mattu Pongal'],
+    ['2025-02-26', 'Maha Shivaratri'],
+    ['2025-04-14', 'Tamil New Year'],
+    ['2025-10-20', 'Deepavali'],
+    ['2025-12-31', 'Vaikunta Ekadashi'],
+  ])('keeps %s as %s', async (date, name) => {
+    expect(await getFestivalNames(date)).toContain(name);
+  });
+
+  it('keeps a festival on one day only', async () => {
+    expect(await getFestivalNames('2025-02-25')).not.toContain('Maha Shivaratri');
+    expect(await getFestivalNames('2025-02-27')).not.toContain('Maha Shivaratri');
+  });
+
+  it('keeps a tithi across a month boundary on the day within the month', () => {
+    // Chaturdashi prevails at the nishitha of Feb 26; treat that day as Thai
+    // and Feb 27, on which it ends after sunrise, as the first day of Maasi
+    const days = {
+      previous: getFestivalDay('2025-02-25', '2025-02-26', 10),
+      current: getFestivalDay('2025-02-26', '2025-02-27', 10),
+      next: getFestivalDay('2025-02-27', '2025-02-28', 11),
+    };
+    const following = {
+      previous: days.current,
+      current: days.next,
+      next: getFestivalDay('2025-02-28', '2025-03-01', 11),
+    };
+
+    const names = (date: string, festivalDays: typeof days) =>
+      getMatchingFestivals(date, festivalDays, 1, 30, CHENNAI.timezone).map(festival => festival.name.en);
+
+    expect(names('2025-02-26', days)).not.toContain('Maha Shivaratri');
+    expect(names('2025-02-27', following)).toContain('Maha Shivaratri');
+  });
+});
@@ -4,52 +4,271 @@
  * Determines which festivals fall on a given date based on:
  * - Tithi-based Hindu festivals
  * - Nakshatra-based Hindu festivals
+ * - Sankranti-based festivals (days around the Sun's entry into a rasi)
+ * - Tamil date festivals (a fixed day of a Tamil month)
  * - Fixed date (Gregorian) festivals
+ *
+ * A tithi or nakshatra festival is kept on the day of its Tamil month on
+ * which its tithi or nakshatra prevails at the festival's karmakala. When it
+ * prevails at the karmakala of two consecutive days, the festival's
+ * tie-break decides; when it misses the karmakala of every day, the
+ * festival is kept on the first day of the month that it touches.
  */
 
-import { FestivalInfo, TithiInfo, NakshatraInfo } from '../types/panchangam.js';
+import {
+  FestivalInfo,
+  FestivalKarmakala,
+  FestivalTieBreak,
+  KarmakalaId,
+} from '../types/panchangam.js';
 import {
   TITHI_BASED_FESTIVALS,
   NAKSHATRA_BASED_FESTIVALS,
+  SANKRANTI_FESTIVALS,
+  TAMIL_DATE_FESTIVALS,
+  KARMAKALAS,
+  ARUNODAYA_GHATIS,
+  GHATIS_PER_DAY,
+  DAY_PARTS,
+  APARAHNA_PART,
+  PRADOSHA_MUHURTAS,
+  NISHITHA_MUHURTA,
   getFixedFestivals
 } from '../config/festivals.js';
-import { getTamilMonth } from '../config/tamilCalendar.js';
-import { getSunLongitude } from './swisseph.js';
+import { TITHI_SPAN } from '../config/tithi.js';
+import { NAKSHATRA_SPAN } from '../config/nakshatra.js';
+import { MUHURTAS_PER_HALF } from '../config/muhurta.js';
+import { getMoonLongitude } from './swisseph.js';
+import { getElongation } from './tithi.js';
+import { findSegmentSpans, SegmentSpan } from './events.js';
+import {
+  julianDayToDateTime,
+  formatTimeShort,
+  createTimestamp,
+} from '../utils/datetime.js';
+
+// Longer than any tithi or nakshatra (about 26 hours at most)
+const LOOKAROUND_DAYS = 1.5;
+
+/**
+ * Sunrise, sunset and next sunrise of one day, with its Tamil month.
+ */
+export interface FestivalDay {
+  sunriseJD: number;
+  sunsetJD: number;
+  nextSunriseJD: number;
+  tamilMonthIndex: number;  // 1-12, Chithirai = 1
+}
+
+/**
+ * The day being matched with the days on either side, for tie-breaks.
+ */
+export interface FestivalDays {
+  previous: FestivalDay;
+  current: FestivalDay;
+  next: FestivalDay;
+}
+
+interface KarmakalaWindow {
+  startJD: number;
+  endJD: number;
+}
+
+/**
+ * Get the karmakala window of a day.
+ */
+function getKarmakalaWindow(karmakala: KarmakalaId, day: FestivalDay): KarmakalaWindow {
+  const dayPart = (day.sunsetJD - day.sunriseJD) / DAY_PARTS;
+  const nightMuhurta = (day.nextSunriseJD - day.sunsetJD) / MUHURTAS_PER_HALF;
+
+  switch (karmakala) {
+    case 'arunodaya':
+      return {
+        startJD: day.sunriseJD - ARUNODAYA_GHATIS / GHATIS_PER_DAY,
+        endJD: day.sunriseJD,
+      };
+    case 'aparahna':
+      return {
+        startJD: day.sunriseJD + (APARAHNA_PART - 1) * dayPart,
+        endJD: day.sunriseJD + APARAHNA_PART * dayPart,
+      };
+    case 'pradosha':
+      return {
+        startJD: day.sunsetJD,
+        endJD: day.sunsetJD + PRADOSHA_MUHURTAS * nightMuhurta,
+      };
+    case 'nishitha':
+      return {
+        startJD: day.sunsetJD + (NISHITHA_MUHURTA - 1) * nightMuhurta,
+        endJD: day.sunsetJD + NISHITHA_MUHURTA * nightMuhurta,
+      };
+    case 'sunrise':
+      return { startJD: day.sunriseJD, endJD: day.sunriseJD };
+  }
+}
+
+/**
+ * Share (0-1) of a karmakala in which a tithi or nakshatra prevails.
+ * A karmakala reckoned at its start counts in full or not at all.
+ */
+function getKarmakalaShare(span: SegmentSpan, karmakala: KarmakalaId, day: FestivalDay): number {
+  const window = getKarmakalaWindow(karmakala, day);
+
+  if (KARMAKALAS[karmakala].atStart) {
+    return span.startJD <= window.startJD && window.startJD < span.endJD ? 1 : 0;
+  }
+
+  const overlap = Math.min(span.endJD, window.endJD) - Math.max(span.startJD, window.startJD);
+  return Math.max(0, overlap) / (window.endJD - window.startJD);
+}
+
+/**
+ * Check whether the current day keeps a festival on any of the given
+ * tithi or nakshatra spans. Only days of the festival's Tamil month
+ * (0 = every month) can keep it, so a span across a month boundary is
+ * kept on the side within the month.
+ */
+function isKeptOnCurrentDay(
+  spans: SegmentSpan[],
+  days: FestivalDays,
+  month: number,
+  karmakala: KarmakalaId,
+  tieBreak: FestivalTieBreak
+): boolean {
+  const dayList = [days.previous, days.current, days.next];
+  const inMonth = dayList.map(day => month === 0 || day.tamilMonthIndex === month);
+
+  return spans.some(span => {
+    const shares = dayList.map((day, i) => inMonth[i] ? getKarmakalaShare(span, karmakala, day) : 0);
+    const candidates = [0, 1, 2].filter(i => shares[i]! > 0);
+
+    let chosen: number;
+    if (candidates.length === 0) {
+      // Missed every karmakala: kept on the first day of the month it touches
+      chosen = dayList.findIndex((day, i) =>
+        inMonth[i] && span.startJD < day.nextSunriseJD && span.endJD > day.sunriseJD
+      );
+    } else if (candidates.length === 1) {
+      chosen = candidates[0]!;
+    } else {
+      const first = candidates[0]!;
+      const second = candidates[1]!;
+      if (tieBreak === 'first') {
+        chosen = first;
+      } else if (tieBreak === 'second') {
+        chosen = second;
+      } else {
+        chosen = shares[second]! > shares[first]! ? second : first;
+      }
+    }
+
+    return chosen === 1;
+  });
+}
+
+/**
+ * Format the current day's karmakala, for festivals not reckoned at sunrise.
+ */
+function formatKarmakala(karmakala: KarmakalaId, day: FestivalDay, timezone: string): FestivalKarmakala {
+  const window = getKarmakalaWindow(karmakala, day);
+  const sunriseTime = julianDayToDateTime(day.sunriseJD, timezone);
+  const startTime = julianDayToDateTime(window.startJD, timezone);
+  const endTime = julianDayToDateTime(window.endJD, timezone);
+
+  return {
+    id: karmakala,
+    name: KARMAKALAS[karmakala].name,
+    start: formatTimeShort(startTime),
+    end: formatTimeShort(endTime),
+    startAt: createTimestamp(startTime, sunriseTime, formatTimeShort),
+    endAt: createTimestamp(endTime, sunriseTime, formatTimeShort),
+  };
+}
+
+/**
+ * Check whether a Tamil date is a given number of days from the first day of
+ * the solar month in which the Sun enters a rasi. A negative offset counts
+ * back into the month before.
+ */
+function isSankrantiDay(
+  tamilMonthIndex: number,
+  tamilDay: number,
+  tamilMonthDays: number,
+  rasi: number,
+  dayOffset: number
+): boolean {
+  if (dayOffset >= 0) {
+    return tamilMonthIndex === rasi && tamilDay === dayOffset + 1;
+  }
+
+  const previousRasi = ((rasi + 10) % 12) + 1;
+  return tamilMonthIndex === previousRasi && tamilDay === tamilMonthDays + dayOffset + 1;
+}
 
 /**
  * Get all festivals for a given date.
  *
  * @param dateStr - Date in YYYY-MM-DD format
- * @param tithi - Current Tithi info
- * @param nakshatra - Current Nakshatra info
- * @param sunLongitude - Sun's sidereal longitude (for Tamil month)
+ * @param days - Sunrise, sunset and next sunrise of the date and the days on either side
+ * @param tamilDay - Day of the Tamil month
+ * @param tamilMonthDays - Number of days in the Tamil month
+ * @param timezone - IANA timezone, for karmakala times
  * @returns Array of festivals for this date
  */
 export function getMatchingFestivals(
   dateStr: string,
-  tithi: TithiInfo,
-  nakshatra: NakshatraInfo,
-  sunLongitude: number
+  days: FestivalDays,
+  tamilDay: number,
+  tamilMonthDays: number,
+  timezone: string
 ): FestivalInfo[] {
   const festivals: FestivalInfo[] = [];
 
   // Parse date for fixed festivals
-  const [yearStr, monthStr, dayStr] = dateStr.split('-');
+  const [, monthStr, dayStr] = dateStr.split('-');
   const gregorianMonth = parseInt(monthStr ?? '1', 10);
   const gregorianDay = parseInt(dayStr ?? '1', 10);
 
-  // Get Tamil month for Hindu festivals
-  const tamilMonth = getTamilMonth(sunLongitude);
+  // From the previous sunrise to the sunrise after the next day; tithis are
+  // numbered 1-30 through both pakshas
+  const startJD = days.previous.sunriseJD;
+  const endJD = days.next.nextSunriseJD;
+  const tithiSpans = findSegmentSpans(startJD, endJD, TITHI_SPAN, getElongation, LOOKAROUND_DAYS);
+  const nakshatraSpans = findSegmentSpans(startJD, endJD, NAKSHATRA_SPAN, getMoonLongitude, LOOKAROUND_DAYS);
+
+  const addFestival = (festival: { name: FestivalInfo['name']; type: FestivalInfo['type'] }, karmakala: KarmakalaId) => {
+    festivals.push({
+      name: festival.name,
+      type: festival.type,
+      ...(karmakala !== 'sunrise' && { karmakala: formatKarmakala(karmakala, days.current, timezone) }),
+    });
+  };
 
   // Check tithi-based festivals
   for (const festival of TITHI_BASED_FESTIVALS) {
-    // Check if month matches (0 = all months)
-    const monthMatches = festival.month === 0 || festival.month === tamilMonth.index;
+    const tithiIndex = festival.paksha === 'krishna' ? festival.tithi + 15 : festival.tithi;
+    const spans = tithiSpans.filter(span => span.index === tithiIndex);
+    const karmakala = festival.karmakala ?? 'sunrise';
 
-    // Check if tithi matches
-    const tithiMatches = festival.tithi === tithi.index;
+    if (isKeptOnCurrentDay(spans, days, festival.month, karmakala, festival.tieBreak ?? 'greater')) {
+      addFestival(festival, karmakala);
+    }
+  }
 
-    if (monthMatches && tithiMatches) {
+  // Check nakshatra-based festivals
+  for (const festival of NAKSHATRA_BASED_FESTIVALS) {
+    const spans = nakshatraSpans.filter(span => span.index === festival.nakshatra);
+    const karmakala = festival.karmakala ?? 'sunrise';
+
+    if (isKeptOnCurrentDay(spans, days, festival.month, karmakala, festival.tieBreak ?? 'greater')) {
+      addFestival(festival, karmakala);
+    }
+  }
+
+  // Check Sankranti-based festivals
+  for (const festival of SANKRANTI_FESTIVALS) {
+    const { tamilMonthIndex } = days.current;
+    if (isSankrantiDay(tamilMonthIndex, tamilDay, tamilMonthDays, festival.rasi, festival.dayOffset)) {
       festivals.push({
         name: festival.name,
         type: festival.type,
@@ -57,12 +276,9 @@ export function getMatchingFestivals(
     }
   }
 
-  // Check nakshatra-based festivals
-  for (const festival of NAKSHATRA_BASED_FESTIVALS) {
-    const monthMatches = festival.month === 0 || festival.month === tamilMonth.index;
-    const nakshatraMatches = festival.nakshatra === nakshatra.index;
-
-    if (monthMatches && nakshatraMatches) {
+  // Check Tamil date festivals
+  for (const festival of TAMIL_DATE_FESTIVALS) {
+    if (festival.month === days.current.tamilMonthIndex && festival.day === tamilDay) {
       festivals.push({
         name: festival.name,
         type: festival.type,
@@ -0,0 +1,75 @@
+/**
+ * Hora Calculator
+ *
+ * Calculates the 24 planetary hours (Horas) from sunrise to the next sunrise.
+ * The first Hora belongs to the weekday lord; each following Hora passes to
+ * the next lord in Chaldean order.
+ *
+ * - Equal: 24 Horas of 60 minutes from sunrise.
+ * - Proportional: 12 Horas dividing sunrise to sunset and 12 dividing sunset
+ *   to the next sunrise, so day and night Horas differ in length.
+ */
+
+import { HoraInfo, HoraPeriod, HoraSystem } from '../types/panchangam.js';
+import { DEFAULT_HORA_SYSTEM, HORAS_PER_DAY, HORA_LORDS, WEEKDAY_HORA_START } from '../config/hora.js';
+import {
+  julianDayToDateTime,
+  formatTimeShort,
+  getDayOfWeek,
+  createTimestamp,
+  divideTimeRange,
+} from '../utils/datetime.js';
+import { DateTime } from 'luxon';
+
+/**
+ * Calculate the Horas of a day.
+ *
+ * @param sunriseJD - Julian Day of sunrise
+ * @param sunsetJD - Julian Day of sunset
+ * @param nextSunriseJD - Julian Day of the next sunrise
+ * @param dateStr - Date string (YYYY-MM-DD)
+ * @param timezone - Timezone string
+ * @param system - Equal (60-minute) or proportional Horas
+ * @returns The 24 Horas in time order
+ */
+export function calculateHora(
+  sunriseJD: number,
+  sunsetJD: number,
+  nextSunriseJD: number,
+  dateStr: string,
+  timezone: string,
+  system: HoraSystem = DEFAULT_HORA_SYSTEM
+): HoraInfo {
+  const sunriseTime = julianDayToDateTime(sunriseJD, timezone);
+  const sunsetTime = julianDayToDateTime(sunsetJD, timezone);
+  const nextSunriseTime = julianDayToDateTime(nextSunriseJD, timezone);
+  const dayOfWeek = getDayOfWeek(dateStr, timezone);
+
+  const halfDay = HORAS_PER_DAY / 2;
+  const segments: Array<{ start: DateTime; end: DateTime }> = system === 'equal'
+    ? Array.from({ length: HORAS_PER_DAY }, (_, i) => ({
+      start: sunriseTime.plus({ hours: i }),
+      end: sunriseTime.plus({ hours: i + 1 }),
+    }))
+    : [
+      ...divideTimeRange(sunriseTime, sunsetTime, halfDay),
+      ...divideTimeRange(sunsetTime, nextSunriseTime, halfDay),
+    ];
+
+  const firstLord = WEEKDAY_HORA_START[dayOfWeek] ?? 0;
+  const periods: HoraPeriod[] = segments.map((segment, i) => {
+    const config = HORA_LORDS[(firstLord + i) % HORA_LORDS.length]!;
+    return {
+      index: i + 1,
+      lord: config.lord,
+      name: config.name,
+      nature: config.nature,
+      start: formatTimeShort(segment.start),
+      end: formatTimeShort(segment.end),
+      startAt: createTimestamp(segment.start, sunriseTime, formatTimeShort),
+      endAt: createTimestamp(segment.end, sunriseTime, formatTimeShort),
+    };
+  });
+
+  return { system, periods };
+}
@@ -7,9 +7,10 @@
  */
 
 import { KaranaInfo } from '../types/panchangam.js';
-import { getSunMoonPositions, findAngleCrossing } from './swisseph.js';
+import { getSunMoonPositions } from './swisseph.js';
+import { findNextAngleCrossing } from './events.js';
 import { KARANA_SPAN, getKaranaFromPositions, getKaranaByNumber, MOVABLE_KARANAS, FIXED_KARANAS } from '../config/karana.js';
-import { julianDayToDateTime, formatTime } from '../utils/datetime.js';
+import { julianDayToDateTime, formatTime, createTimestamp } from '../utils/datetime.js';
 
 /**
  * Get the Moon-Sun elongation for a given Julian Day.
@@ -46,15 +47,7 @@ export function findKaranaEndTime(
   const nextKaranaElongation = (currentKaranaNumber * KARANA_SPAN) % 360;
 
   // Each karana lasts about 12 hours
-  const searchEndJD = currentJD + 1;
-
-  return findAngleCrossing(
-    currentJD,
-    searchEndJD,
-    nextKaranaElongation,
-    getElongation,
-    0.001
-  );
+  return findNextAngleCrossing(currentJD, nextKaranaElongation, getElongation, 1);
 }
 
 /**
@@ -87,6 +80,7 @@ export function calculateKarana(julianDay: number, timezone: string): KaranaInfo
     index: karanaConfig.index,
     name: karanaConfig.name,
     endTime: formatTime(endDateTime),
+    endAt: createTimestamp(endDateTime, julianDayToDateTime(julianDay, timezone)),
     nextKarana: nextKaranaConfig.name,
   };
 }
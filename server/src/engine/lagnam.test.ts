@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { calculateDayLagnams, calculateLagnaIruppu } from './lagnam.js';
+import { calculateDayBoundaries, DEFAULT_DAY_BOUNDARY_OPTIONS } from './dayBoundary.js';
+import { createDateTime } from '../utils/datetime.js';
+import { HighLatitudePolicy } from '../types/panchangam.js';
+
+// Tromsø, Norway: beyond the Arctic Circle
+const TROMSO = { latitude: 69.6492, longitude: 18.9553, timezone: 'Europe/Oslo' };
+
+function getDay(date: string, policy: HighLatitudePolicy) {
+  const options = { ...DEFAULT_DAY_BOUNDARY_OPTIONS, highLatitudePolicy: policy };
+  const { latitude, longitude, timezone } = TROMSO;
+  const nextDate = createDateTime(date, timezone).plus({ days: 1 }).toISODate() ?? date;
+  const { sunriseJD } = calculateDayBoundaries(date, latitude, longitude, timezone, options);
+  const { sunriseJD: nextSunriseJD } = calculateDayBoundaries(nextDate, latitude, longitude, timezone, options);
+  return { sunriseJD, nextSunriseJD };
+}
+
+describe('lagnam at high latitudes', () => {
+  const cases: [string, HighLatitudePolicy][] = [
+    ['2025-12-21', 'nearest-latitude'],
+    ['2025-11-27', 'nearest-latitude'],
+    ['2025-05-18', 'nearest-latitude'],
+    ['2025-06-21', 'midnight-sun'],
+  ];
+
+  it.each(cases)('finds the lagnas of %s (%s)', (date, policy) => {
+    const { sunriseJD, nextSunriseJD } = getDay(date, policy);
+    const { latitude, longitude, timezone } = TROMSO;
+
+    const lagnams = calculateDayLagnams(sunriseJD, nextSunriseJD, latitude, longitude, timezone);
+    expect(lagnams.length).toBeGreaterThan(0);
+    for (let i = 1; i < lagnams.length; i++) {
+      expect(lagnams[i]!.startAt.iso).toBe(lagnams[i - 1]!.endAt.iso);
+    }
+
+    const iruppu = calculateLagnaIruppu(sunriseJD, latitude, longitude);
+    expect(iruppu.index).toBe(lagnams[0]!.index);
+  });
+});
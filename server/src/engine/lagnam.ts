@@ -4,20 +4,35 @@
  * Calculates the rising sign (Lagna) throughout the day.
  * Each rasi (zodiac sign) rises for approximately 2 hours.
  * The exact duration varies based on latitude and time of year.
+ * Transition times are exact ascendant sign-crossings from the event solver.
  */
 
-import { LagnamInfo, BilingualText } from '../types/panchangam.js';
-import { calculateAscendant, getSunLongitude } from './swisseph.js';
-import { getRasiIndex, getRasiConfig, RASI_SPAN, RASIS } from '../config/rasi.js';
-import { julianDayToDateTime, formatTimeShort, divideTimeRange, createDateTime } from '../utils/datetime.js';
-import { DateTime } from 'luxon';
+import { LagnamInfo, LagnaIruppu, BilingualText } from '../types/panchangam.js';
+import { calculateAscendant } from './swisseph.js';
+import { findAngleCrossings, findSegmentSpans } from './events.js';
+import { getRasiIndex, getRasiConfig, RASI_SPAN } from '../config/rasi.js';
+import {
+  julianDayToDateTime,
+  formatTimeShort,
+  formatDuration,
+  minutesToNazhigai,
+  createTimestamp,
+} from '../utils/datetime.js';
+
+// The ascendant moves about 30° in 2 hours; half-hour sampling brackets every sign
+const LAGNA_SEARCH_STEP = 1 / 48;
+
+// The ascendant passes every rasi boundary within a sidereal day, even at
+// polar latitudes where it moves backwards for part of the day
+const LAGNA_LOOKAROUND_DAYS = 1;
 
 /**
- * Calculate all Lagnam (ascendant) changes for a day.
- * Returns the time periods for each rasi rising.
+ * Calculate all Lagnam (ascendant) periods between sunrise and the next sunrise.
+ * The first and last periods extend to their actual start and end,
+ * before sunrise and after the next sunrise.
  *
  * @param sunriseJD - Julian Day of sunrise
- * @param sunsetJD - Julian Day of sunset
+ * @param nextSunriseJD - Julian Day of the next sunrise
  * @param latitude - Geographic latitude
  * @param longitude - Geographic longitude
  * @param timezone - Timezone string
@@ -25,72 +40,91 @@ import { DateTime } from 'luxon';
  */
 export function calculateDayLagnams(
   sunriseJD: number,
-  sunsetJD: number,
+  nextSunriseJD: number,
   latitude: number,
   longitude: number,
   timezone: string
 ): LagnamInfo[] {
-  const lagnams: LagnamInfo[] = [];
-
-  // We need to calculate lagnams for the full 24-hour period
-  // Starting from sunrise of today to sunrise of next day
-  const fullDayEndJD = sunriseJD + 1;
-
-  // Sample ascendant positions throughout the day
-  // Use smaller increments for accuracy (every 10 minutes = 1/144 of a day)
-  const timeStep = 1 / 144;
+  const getAscendant = (jd: number) => calculateAscendant(jd, latitude, longitude);
+  // The lagna rising at sunrise and every lagna that starts before the next
+  // sunrise; beyond the polar circles the ascendant can move backwards
+  const spans = findSegmentSpans(
+    sunriseJD, nextSunriseJD, RASI_SPAN, getAscendant, LAGNA_LOOKAROUND_DAYS, { step: LAGNA_SEARCH_STEP }
+  );
+  const first = spans[0];
+  const last = spans[spans.length - 1];
+  if (!first || !last || first.startJD > sunriseJD || last.endJD < nextSunriseJD) {
+    throw new Error('Lagna transitions not found around sunrise');
+  }
 
-  let prevRasiIndex = -1;
-  let periodStart = sunriseJD;
-  let periodStartTime: DateTime | null = null;
+  const sunriseTime = julianDayToDateTime(sunriseJD, timezone);
+  const lagnams: LagnamInfo[] = [];
 
-  for (let jd = sunriseJD; jd <= fullDayEndJD; jd += timeStep) {
-    try {
-      const ascendant = calculateAscendant(jd, latitude, longitude);
-      const rasiIndex = getRasiIndex(ascendant);
+  for (const { index: rasiIndex, startJD, endJD } of spans) {
+    const rasiConfig = getRasiConfig(rasiIndex);
+    if (!rasiConfig) {
+      throw new Error(`Invalid rasi index: ${rasiIndex}`);
+    }
 
-      if (prevRasiIndex !== -1 && rasiIndex !== prevRasiIndex) {
-        // Rasi has changed, record the previous period
-        const rasiConfig = getRasiConfig(prevRasiIndex);
-        if (rasiConfig && periodStartTime) {
-          const periodEndTime = julianDayToDateTime(jd, timezone);
-          lagnams.push({
-            index: prevRasiIndex,
-            rasi: rasiConfig.name,
-            start: formatTimeShort(periodStartTime),
-            end: formatTimeShort(periodEndTime),
-          });
-        }
-        periodStart = jd;
-        periodStartTime = julianDayToDateTime(jd, timezone);
-      }
+    const startTime = julianDayToDateTime(startJD, timezone);
+    const endTime = julianDayToDateTime(endJD, timezone);
+    lagnams.push({
+      index: rasiIndex,
+      rasi: rasiConfig.name,
+      start: formatTimeShort(startTime),
+      end: formatTimeShort(endTime),
+      startAt: createTimestamp(startTime, sunriseTime, formatTimeShort),
+      endAt: createTimestamp(endTime, sunriseTime, formatTimeShort),
+    });
+  }
 
-      if (prevRasiIndex === -1) {
-        periodStartTime = julianDayToDateTime(jd, timezone);
-      }
+  return lagnams;
+}
 
-      prevRasiIndex = rasiIndex;
-    } catch (error) {
-      // Skip errors in ascendant calculation
-      continue;
-    }
+/**
+ * Calculate the lagna iruppu: the part of the sunrise lagna still to rise at sunrise,
+ * up to the ascendant leaving the rasi by either boundary.
+ *
+ * @param sunriseJD - Julian Day of sunrise
+ * @param latitude - Geographic latitude
+ * @param longitude - Geographic longitude
+ * @returns Sunrise lagna with its remaining duration
+ */
+export function calculateLagnaIruppu(
+  sunriseJD: number,
+  latitude: number,
+  longitude: number
+): LagnaIruppu {
+  const getAscendant = (jd: number) => calculateAscendant(jd, latitude, longitude);
+  const rasiIndex = getRasiIndex(getAscendant(sunriseJD));
+  const rasiConfig = getRasiConfig(rasiIndex);
+  if (!rasiConfig) {
+    throw new Error(`Invalid rasi index: ${rasiIndex}`);
   }
 
-  // Add the last period
-  if (prevRasiIndex !== -1 && periodStartTime) {
-    const rasiConfig = getRasiConfig(prevRasiIndex);
-    if (rasiConfig) {
-      const endTime = julianDayToDateTime(fullDayEndJD, timezone);
-      lagnams.push({
-        index: prevRasiIndex,
-        rasi: rasiConfig.name,
-        start: formatTimeShort(periodStartTime),
-        end: formatTimeShort(endTime),
-      });
-    }
+  const [exit] = findAngleCrossings(
+    sunriseJD,
+    sunriseJD + LAGNA_LOOKAROUND_DAYS,
+    [(rasiIndex - 1) * RASI_SPAN, (rasiIndex * RASI_SPAN) % 360],
+    getAscendant,
+    { step: LAGNA_SEARCH_STEP },
+    1
+  );
+  if (!exit) {
+    throw new Error('Lagna transition not found after sunrise');
   }
+  const endJD = exit.jd;
 
-  return lagnams;
+  const minutes = (endJD - sunriseJD) * 24 * 60;
+  const { nazhigai, vinadi } = minutesToNazhigai(minutes);
+
+  return {
+    index: rasiIndex,
+    rasi: rasiConfig.name,
+    nazhigai,
+    vinadi,
+    duration: formatDuration(minutes),
+  };
 }
 
 /**
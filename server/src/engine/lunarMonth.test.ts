@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { calculateLunarMonth } from './lunarMonth.js';
+import { dateToJulianDay } from '../utils/datetime.js';
+
+const TIMEZONE = 'Asia/Kolkata';
+
+function getLunarMonth(date: string, system: 'amanta' | 'purnimanta' = 'amanta') {
+  return calculateLunarMonth(dateToJulianDay(`${date}T06:00`, TIMEZONE), TIMEZONE, system);
+}
+
+describe('calculateLunarMonth', () => {
+  it.each([
+    ['2023-08-01', 5, 'Adhika Shravana'],
+    ['2026-06-01', 3, 'Adhika Jyeshtha'],
+  ])('finds %s in month %i (%s)', (date, index) => {
+    const month = getLunarMonth(date);
+    expect(month.index).toBe(index);
+    expect(month.isAdhika).toBe(true);
+  });
+
+  it('follows an adhika month with the nija month of the same name', () => {
+    const month = getLunarMonth('2023-08-25');
+    expect(month.index).toBe(5);
+    expect(month.isAdhika).toBe(false);
+  });
+
+  it('keeps the adhika month from new moon to new moon under purnimanta', () => {
+    const month = getLunarMonth('2023-08-01', 'purnimanta');
+    expect(month.isAdhika).toBe(true);
+    expect(month.startAt.iso.slice(0, 10)).toBe('2023-07-18');
+    expect(month.endAt.iso.slice(0, 10)).toBe('2023-08-16');
+  });
+
+  it('finds no adhika month in 2025', () => {
+    const months = ['2025-04-15', '2025-06-15', '2025-08-15', '2025-10-15', '2025-12-15'].map(date => getLunarMonth(date));
+    expect(months.some(month => month.isAdhika)).toBe(false);
+  });
+});
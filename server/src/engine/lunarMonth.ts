@@ -0,0 +1,153 @@
+/**
+ * Lunar Month (Chandramana) Calculator
+ *
+ * A lunation runs from one new moon to the next. It takes the name of the
+ * month following the rasi the Sun occupies at its opening new moon, which
+ * is the rasi the Sun normally enters during it (Sun in Meena -> Chaitra).
+ *
+ * - Adhika (leap) masa: no Sankranti during the lunation, so the Sun is in
+ *   the same rasi at both new moons. It takes the name of the next month.
+ * - Kshaya masa: two Sankrantis during the lunation, so the name of the
+ *   second rasi entered is skipped that year.
+ *
+ * Amanta months begin at the new moon. Purnimanta months begin at the full
+ * moon, so the dark half (Krishna paksha) belongs to the following amanta
+ * month's name; an adhika month keeps its new-moon bounds in both systems.
+ */
+
+import { LunarMonthInfo, LunarMonthSystem } from '../types/panchangam.js';
+import { getSunLongitude } from './swisseph.js';
+import { findNextAngleCrossing, findPreviousAngleCrossing } from './events.js';
+import { getElongation } from './tithi.js';
+import { DEFAULT_LUNAR_MONTH_SYSTEM, getLunarMonthConfig } from '../config/lunarMonth.js';
+import { julianDayToDateTime, createTimestamp } from '../utils/datetime.js';
+
+// A synodic month is 29.53 days; a slightly longer window always holds one new moon
+const LUNATION_SEARCH_DAYS = 31;
+
+// Elongation grows about 12° a day, so daily sampling brackets every crossing
+const LUNATION_SEARCH_STEP = 1;
+
+// New and full moons found recently, reused by the following days of a range.
+// They depend only on the elongation, not on the location or ayanamsa.
+const MAX_CACHED_SYZYGY_BOUNDS = 24;
+
+interface SyzygyBounds {
+  target: number;         // 0 = new moon, 180 = full moon
+  startJD: number;
+  endJD: number;
+}
+
+const syzygyBoundsCache: SyzygyBounds[] = [];
+
+interface Lunation {
+  startJD: number;        // Opening new moon
+  endJD: number;          // Closing new moon
+  index: number;          // 1-12 (Chaitra = 1)
+  isAdhika: boolean;
+  isKshaya: boolean;
+}
+
+/**
+ * Get the sidereal rasi (0 = Mesha) the Sun occupies.
+ */
+function getSunRasi(jd: number): number {
+  return Math.floor(getSunLongitude(jd) / 30) % 12;
+}
+
+/**
+ * Find the lunation between two new moons and name it.
+ */
+function describeLunation(startJD: number, endJD: number): Lunation {
+  const startRasi = getSunRasi(startJD);
+  const rasisEntered = (getSunRasi(endJD) - startRasi + 12) % 12;
+
+  return {
+    startJD,
+    endJD,
+    index: ((startRasi + 1) % 12) + 1,
+    isAdhika: rasisEntered === 0,
+    isKshaya: rasisEntered === 2,
+  };
+}
+
+/**
+ * Find the new moons (target 0) or full moons (target 180) on either side of a moment.
+ */
+function findSyzygyBounds(jd: number, target: number): SyzygyBounds {
+  const cached = syzygyBoundsCache.find(b => b.target === target && b.startJD <= jd && jd < b.endJD);
+  if (cached) {
+    return cached;
+  }
+
+  const options = { step: LUNATION_SEARCH_STEP };
+  const bounds: SyzygyBounds = {
+    target,
+    startJD: findPreviousAngleCrossing(jd, target, getElongation, LUNATION_SEARCH_DAYS, options),
+    endJD: findNextAngleCrossing(jd, target, getElongation, LUNATION_SEARCH_DAYS, options),
+  };
+
+  syzygyBoundsCache.push(bounds);
+  if (syzygyBoundsCache.length > MAX_CACHED_SYZYGY_BOUNDS) {
+    syzygyBoundsCache.shift();
+  }
+  return bounds;
+}
+
+/**
+ * Find the lunation containing a moment.
+ */
+function findLunation(jd: number): Lunation {
+  const { startJD, endJD } = findSyzygyBounds(jd, 0);
+  return describeLunation(startJD, endJD);
+}
+
+/**
+ * Calculate the lunar month in effect at a moment (normally sunrise).
+ *
+ * @param jd - Julian Day
+ * @param timezone - Timezone for the month's start and end times
+ * @param system - Amanta (new moon to new moon) or purnimanta (full moon to full moon)
+ * @returns Month name and index with its adhika/kshaya status and bounds
+ */
+export function calculateLunarMonth(
+  jd: number,
+  timezone: string,
+  system: LunarMonthSystem = DEFAULT_LUNAR_MONTH_SYSTEM
+): LunarMonthInfo {
+  let lunation = findLunation(jd);
+  let startJD = lunation.startJD;
+  let endJD = lunation.endJD;
+
+  if (system === 'purnimanta') {
+    ({ startJD, endJD } = findSyzygyBounds(jd, 180));
+
+    if (lunation.isAdhika) {
+      startJD = lunation.startJD;
+      endJD = lunation.endJD;
+    } else if (getElongation(jd) >= 180) {
+      // Krishna paksha: named after the next lunation
+      const next = findLunation(lunation.endJD + 1);
+      lunation = { ...next, isAdhika: false };
+      if (next.isAdhika) {
+        // The dark half before an adhika month ends at its new moon
+        endJD = next.startJD;
+      }
+    } else if (findLunation(lunation.startJD - 1).isAdhika) {
+      // The bright half after an adhika month starts at its closing new moon
+      startJD = lunation.startJD;
+    }
+  }
+
+  const reference = julianDayToDateTime(jd, timezone);
+  return {
+    index: lunation.index,
+    name: getLunarMonthConfig(lunation.index).name,
+    system,
+    isAdhika: lunation.isAdhika,
+    isKshaya: lunation.isKshaya,
+    kshayaMonth: lunation.isKshaya ? getLunarMonthConfig(lunation.index + 1).name : undefined,
+    startAt: createTimestamp(julianDayToDateTime(startJD, timezone), reference),
+    endAt: createTimestamp(julianDayToDateTime(endJD, timezone), reference),
+  };
+}
@@ -7,8 +7,13 @@
  * - Kuligai: Inauspicious period ruled by Gulika
  * - Gowri Neram: Auspicious/inauspicious periods based on Gowri Panchangam
  * - Nalla Neram: Generally auspicious times
+ * - Abhijit, Brahma Muhurta and Durmuhurtam: muhurtas of the day or night
+ * - Varjyam and Amrita Kalam: periods within each nakshatra
+ * - Bhadra (Vishti karana) and Panchaka: from the karana and the Moon
  *
- * These are calculated by dividing the day into 8 equal segments.
+ * These are calculated by dividing the day (sunrise to sunset) into 8 equal
+ * segments; Gowri Neram also divides the night (sunset to next sunrise).
+ * Muhurtas divide the day and the night into 15 each.
  */
 
 import {
@@ -16,9 +21,26 @@ import {
   AuspiciousPeriods,
   TimePeriod,
   GowriPeriod,
+  MuhurtaPeriod,
   BilingualText
 } from '../types/panchangam.js';
-import { julianDayToDateTime, formatTimeShort, getDayOfWeek } from '../utils/datetime.js';
+import { calculateVarjyam, calculateAmritaKalam } from './nakshatraKalam.js';
+import { calculateBhadra } from './bhadra.js';
+import { calculatePanchaka } from './panchaka.js';
+import {
+  MUHURTAS_PER_HALF,
+  ABHIJIT_MUHURTA,
+  BRAHMA_MUHURTA,
+  DURMUHURTAM_MUHURTAS,
+  MUHURTA_PERIOD_NAMES,
+} from '../config/muhurta.js';
+import {
+  julianDayToDateTime,
+  formatTimeShort,
+  getDayOfWeek,
+  createTimestamp,
+  divideTimeRange,
+} from '../utils/datetime.js';
 import { DateTime, Duration } from 'luxon';
 
 /**
@@ -79,6 +101,20 @@ const GOWRI_GOOD_SEGMENTS: Record<number, number[]> = {
   6: [1, 2, 5, 6],      // Saturday
 };
 
+// Weekdays from a day to the weekday whose daytime pattern its night follows
+const GOWRI_NIGHT_WEEKDAY_OFFSET = 4;
+
+/**
+ * Gowri Panchangam night pattern (segment numbers that are good).
+ * The night of each weekday follows the daytime pattern of the fifth
+ * weekday counted from it: Sunday night is read as Thursday day.
+ */
+const GOWRI_NIGHT_GOOD_SEGMENTS: Record<number, number[]> = Object.fromEntries(
+  Array.from({ length: 7 }, (_, day) =>
+    [day, GOWRI_GOOD_SEGMENTS[(day + GOWRI_NIGHT_WEEKDAY_OFFSET) % 7] ?? []]
+  )
+);
+
 /**
  * Gowri period names (8 periods per day).
  */
@@ -118,6 +154,35 @@ function getTimeSegment(
   return {
     start: formatTimeShort(startTime),
     end: formatTimeShort(endTime),
+    startAt: createTimestamp(startTime, sunriseTime, formatTimeShort),
+    endAt: createTimestamp(endTime, sunriseTime, formatTimeShort),
+  };
+}
+
+/**
+ * Calculate one of the 15 muhurtas of a day or a night.
+ *
+ * @param startTime - Sunrise (day) or sunset (night)
+ * @param endTime - Sunset (day) or next sunrise (night)
+ * @param muhurta - Muhurta number within the half (1-15)
+ * @param name - Name of the period
+ * @param reference - Time that timestamp day offsets are counted from
+ */
+function getMuhurta(
+  startTime: DateTime,
+  endTime: DateTime,
+  muhurta: number,
+  name: BilingualText,
+  reference: DateTime
+): MuhurtaPeriod {
+  const { start, end } = divideTimeRange(startTime, endTime, MUHURTAS_PER_HALF)[muhurta - 1]!;
+
+  return {
+    name,
+    start: formatTimeShort(start),
+    end: formatTimeShort(end),
+    startAt: createTimestamp(start, reference, formatTimeShort),
+    endAt: createTimestamp(end, reference, formatTimeShort),
   };
 }
 
@@ -126,6 +191,7 @@ function getTimeSegment(
  *
  * @param sunriseJD - Julian Day of sunrise
  * @param sunsetJD - Julian Day of sunset
+ * @param nextSunriseJD - Julian Day of the next sunrise, ending the night
  * @param dateStr - Date string (YYYY-MM-DD)
  * @param timezone - Timezone string
  * @returns InauspiciousPeriods object
@@ -133,11 +199,13 @@ function getTimeSegment(
 export function calculateInauspiciousPeriods(
   sunriseJD: number,
   sunsetJD: number,
+  nextSunriseJD: number,
   dateStr: string,
   timezone: string
 ): InauspiciousPeriods {
   const sunriseTime = julianDayToDateTime(sunriseJD, timezone);
   const sunsetTime = julianDayToDateTime(sunsetJD, timezone);
+  const nextSunriseTime = julianDayToDateTime(nextSunriseJD, timezone);
 
   // Get day of week (0 = Sunday, 6 = Saturday)
   const dayOfWeek = getDayOfWeek(dateStr, timezone);
@@ -161,55 +229,122 @@ export function calculateInauspiciousPeriods(
     KULIGAI_SEGMENTS[dayOfWeek] ?? 1
   );
 
+  // Durmuhurtam: muhurtas 1-15 fall in the day, 16-30 in the night
+  const durmuhurtam = (DURMUHURTAM_MUHURTAS[dayOfWeek] ?? []).map(muhurta =>
+    muhurta <= MUHURTAS_PER_HALF
+      ? getMuhurta(sunriseTime, sunsetTime, muhurta, MUHURTA_PERIOD_NAMES.durmuhurtam, sunriseTime)
+      : getMuhurta(
+        sunsetTime, nextSunriseTime, muhurta - MUHURTAS_PER_HALF, MUHURTA_PERIOD_NAMES.durmuhurtam, sunriseTime
+      )
+  );
+
+  const varjyam = calculateVarjyam(sunriseJD, nextSunriseJD, timezone);
+  const bhadra = calculateBhadra(sunriseJD, nextSunriseJD, timezone);
+  const panchaka = calculatePanchaka(sunriseJD, nextSunriseJD, timezone);
+
   return {
     rahuKalam,
     yamaGandam,
     kuligai,
+    durmuhurtam,
+    varjyam,
+    bhadra,
+    panchaka,
   };
 }
 
 /**
- * Calculate auspicious periods (Gowri Neram and Nalla Neram).
+ * Divide a day or night into the 8 Gowri periods.
  *
+ * @param startTime - Sunrise (day) or sunset (night)
+ * @param endTime - Sunset (day) or next sunrise (night)
+ * @param goodSegments - Segment numbers (1-8) that are good
+ * @param nameOffset - Rotation of the period names
+ */
+function calculateGowriPeriods(
+  startTime: DateTime,
+  endTime: DateTime,
+  goodSegments: number[],
+  nameOffset: number
+): GowriPeriod[] {
+  const periods: GowriPeriod[] = [];
+
+  for (let segment = 1; segment <= 8; segment++) {
+    const period = getTimeSegment(startTime, endTime, segment);
+    const isGood = goodSegments.includes(segment);
+    const nameIndex = (segment - 1 + nameOffset) % 8;
+
+    periods.push({
+      ...period,
+      type: isGood ? 'good' : 'bad',
+      name: GOWRI_NAMES[nameIndex]!,
+    });
+  }
+
+  return periods;
+}
+
+/**
+ * Calculate auspicious periods (Gowri Neram, Nalla Neram and muhurtas).
+ *
+ * @param previousSunsetJD - Julian Day of the previous sunset, starting the night before
  * @param sunriseJD - Julian Day of sunrise
  * @param sunsetJD - Julian Day of sunset
+ * @param nextSunriseJD - Julian Day of the next sunrise, ending the night
  * @param dateStr - Date string (YYYY-MM-DD)
  * @param timezone - Timezone string
  * @returns AuspiciousPeriods object
  */
 export function calculateAuspiciousPeriods(
+  previousSunsetJD: number,
   sunriseJD: number,
   sunsetJD: number,
+  nextSunriseJD: number,
   dateStr: string,
   timezone: string
 ): AuspiciousPeriods {
   const sunriseTime = julianDayToDateTime(sunriseJD, timezone);
   const sunsetTime = julianDayToDateTime(sunsetJD, timezone);
+  const nextSunriseTime = julianDayToDateTime(nextSunriseJD, timezone);
+  const previousSunsetTime = julianDayToDateTime(previousSunsetJD, timezone);
   const dayOfWeek = getDayOfWeek(dateStr, timezone);
 
-  // Calculate Gowri Neram (8 periods with good/bad classification)
-  const gowriNeram: GowriPeriod[] = [];
-  const goodSegments = GOWRI_GOOD_SEGMENTS[dayOfWeek] ?? [];
+  // Calculate Gowri Neram (8 day and 8 night periods with good/bad classification)
+  const gowriNeram = calculateGowriPeriods(
+    sunriseTime,
+    sunsetTime,
+    GOWRI_GOOD_SEGMENTS[dayOfWeek] ?? [],
+    dayOfWeek
+  );
+  const nightGowriNeram = calculateGowriPeriods(
+    sunsetTime,
+    nextSunriseTime,
+    GOWRI_NIGHT_GOOD_SEGMENTS[dayOfWeek] ?? [],
+    (dayOfWeek + GOWRI_NIGHT_WEEKDAY_OFFSET) % 7
+  );
+
+  // Nalla Neram: Filter to only good periods, day then night
+  const nallaNeram: TimePeriod[] = [...gowriNeram, ...nightGowriNeram]
+    .filter(g => g.type === 'good')
+    .map(({ start, end, startAt, endAt }) => ({ start, end, startAt, endAt }));
 
-  for (let segment = 1; segment <= 8; segment++) {
-    const period = getTimeSegment(sunriseTime, sunsetTime, segment);
-    const isGood = goodSegments.includes(segment);
-    const nameIndex = (segment - 1 + dayOfWeek) % 8;
+  const abhijitMuhurta = getMuhurta(
+    sunriseTime, sunsetTime, ABHIJIT_MUHURTA, MUHURTA_PERIOD_NAMES.abhijit, sunriseTime
+  );
 
-    gowriNeram.push({
-      ...period,
-      type: isGood ? 'good' : 'bad',
-      name: GOWRI_NAMES[nameIndex]!,
-    });
-  }
+  // Brahma Muhurta falls in the night ending at this day's sunrise
+  const brahmaMuhurta = getMuhurta(
+    previousSunsetTime, sunriseTime, BRAHMA_MUHURTA, MUHURTA_PERIOD_NAMES.brahma, sunriseTime
+  );
 
-  // Nalla Neram: Filter to only good periods
-  const nallaNeram: TimePeriod[] = gowriNeram
-    .filter(g => g.type === 'good')
-    .map(({ start, end }) => ({ start, end }));
+  const amritaKalam = calculateAmritaKalam(sunriseJD, nextSunriseJD, timezone);
 
   return {
     gowriNeram,
+    nightGowriNeram,
     nallaNeram,
+    abhijitMuhurta,
+    brahmaMuhurta,
+    amritaKalam,
   };
 }
@@ -7,7 +7,8 @@
  */
 
 import { NakshatraInfo, BilingualText } from '../types/panchangam.js';
-import { getMoonLongitude, findAngleCrossing } from './swisseph.js';
+import { getMoonLongitude } from './swisseph.js';
+import { findNextAngleCrossing } from './events.js';
 import {
   NAKSHATRA_SPAN,
   getNakshatraIndex,
@@ -15,11 +16,11 @@ import {
   getNakshatraConfig,
   NAKSHATRAS
 } from '../config/nakshatra.js';
-import { julianDayToDateTime, formatTime } from '../utils/datetime.js';
+import { julianDayToDateTime, formatTime, createTimestamp } from '../utils/datetime.js';
 
 /**
  * Find the end time of the current nakshatra.
- * Uses binary search to find when Moon crosses into the next nakshatra.
+ * Uses the event solver to find when Moon crosses into the next nakshatra.
  *
  * @param currentJD - Current Julian Day
  * @param currentNakshatraIndex - Current nakshatra index (1-27)
@@ -34,15 +35,7 @@ export function findNakshatraEndTime(
 
   // Moon moves about 13° per day, so nakshatra lasts roughly 1 day
   // Search within 2 days to be safe
-  const searchEndJD = currentJD + 2;
-
-  return findAngleCrossing(
-    currentJD,
-    searchEndJD,
-    nextNakshatraStart,
-    getMoonLongitude,
-    0.001
-  );
+  return findNextAngleCrossing(currentJD, nextNakshatraStart, getMoonLongitude, 2);
 }
 
 /**
@@ -79,6 +72,7 @@ export function calculateNakshatra(julianDay: number, timezone: string): Nakshat
     name: nakshatraConfig.name,
     pada: pada,
     endTime: formatTime(endDateTime),
+    endAt: createTimestamp(endDateTime, julianDayToDateTime(julianDay, timezone)),
     lord: nakshatraConfig.lord,
     nextNakshatra: nextNakshatraConfig?.name ?? { en: 'Unknown', ta: 'அறியாத' },
   };
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { calculateVarjyam, calculateAmritaKalam } from './nakshatraKalam.js';
+import { calculateDayBoundaries } from './dayBoundary.js';
+
+const CHENNAI = { latitude: 13.0827, longitude: 80.2707, timezone: 'Asia/Kolkata' };
+
+function getDay(date: string, nextDate: string) {
+  const { sunriseJD } = calculateDayBoundaries(date, CHENNAI.latitude, CHENNAI.longitude, CHENNAI.timezone);
+  const { sunriseJD: nextSunriseJD } =
+    calculateDayBoundaries(nextDate, CHENNAI.latitude, CHENNAI.longitude, CHENNAI.timezone);
+  return { sunriseJD, nextSunriseJD };
+}
+
+describe('Varjyam and Amrita Kalam', () => {
+  // Ardra runs from 11:24 on Jan 12 to 10:38 on Jan 13 (about 23 h 14 m):
+  // Varjyam begins at its 11th ghati and Amrita Kalam at its 35th
+  it('reckons Ardra from its own start ghatis', () => {
+    const { sunriseJD, nextSunriseJD } = getDay('2025-01-12', '2025-01-13');
+
+    expect(calculateVarjyam(sunriseJD, nextSunriseJD, CHENNAI.timezone).map(p => p.start)).toEqual(['15:40']);
+    expect(calculateAmritaKalam(sunriseJD, nextSunriseJD, CHENNAI.timezone).map(p => p.start)).toEqual(['00:57']);
+  });
+
+  it.each([
+    ['2025-01-10', '2025-01-11', ['04:54'], ['11:29']],  // Krittika, then Rohini
+    ['2025-01-11', '2025-01-12', ['17:50'], ['09:27', '03:00']],  // Rohini, then Mrigashira
+  ])('finds the periods from sunrise on %s', (date, nextDate, varjyam, amritaKalam) => {
+    const { sunriseJD, nextSunriseJD } = getDay(date, nextDate);
+
+    expect(calculateVarjyam(sunriseJD, nextSunriseJD, CHENNAI.timezone).map(p => p.start)).toEqual(varjyam);
+    expect(calculateAmritaKalam(sunriseJD, nextSunriseJD, CHENNAI.timezone).map(p => p.start)).toEqual(amritaKalam);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Varjyam and Amrita Kalam Calculator
+ *
+ * Both are reckoned within each nakshatra: its actual duration is divided
+ * into 60 ghatis, and each period begins at a ghati fixed for that nakshatra
+ * (config/muhurta.ts) and lasts 4 ghatis. A long or short nakshatra
+ * stretches or shrinks them in proportion.
+ */
+
+import { BilingualText, MuhurtaPeriod } from '../types/panchangam.js';
+import { getMoonLongitude } from './swisseph.js';
+import { findSegmentSpans, SegmentSpan } from './events.js';
+import { NAKSHATRA_SPAN } from '../config/nakshatra.js';
+import {
+  NAKSHATRA_GHATIS,
+  NAKSHATRA_KALAM_GHATIS,
+  VARJYAM_START_GHATIS,
+  AMRITA_KALAM_START_GHATIS,
+  MUHURTA_PERIOD_NAMES,
+} from '../config/muhurta.js';
+import { julianDayToDateTime, formatTimeShort, createTimestamp } from '../utils/datetime.js';
+
+// Longer than any nakshatra, so the one running at sunrise is found in full
+const LOOKAROUND_DAYS = 1.5;
+
+/**
+ * Find every nakshatra overlapping a time range, with its start and end.
+ */
+function findNakshatraSpans(startJD: number, endJD: number): SegmentSpan[] {
+  return findSegmentSpans(startJD, endJD, NAKSHATRA_SPAN, getMoonLongitude, LOOKAROUND_DAYS);
+}
+
+/**
+ * Calculate the periods starting at a fixed ghati of each nakshatra
+ * that overlap the range.
+ */
+function calculateKalams(
+  spans: SegmentSpan[],
+  startGhatis: number[],
+  name: BilingualText,
+  sunriseJD: number,
+  nextSunriseJD: number,
+  timezone: string
+): MuhurtaPeriod[] {
+  const sunriseTime = julianDayToDateTime(sunriseJD, timezone);
+  const periods: MuhurtaPeriod[] = [];
+
+  for (const span of spans) {
+    const ghati = (span.endJD - span.startJD) / NAKSHATRA_GHATIS;
+    const startJD = span.startJD + (startGhatis[span.index - 1] ?? 0) * ghati;
+    const endJD = startJD + NAKSHATRA_KALAM_GHATIS * ghati;
+    if (endJD <= sunriseJD || startJD >= nextSunriseJD) {
+      continue;
+    }
+
+    const startTime = julianDayToDateTime(startJD, timezone);
+    const endTime = julianDayToDateTime(endJD, timezone);
+    periods.push({
+      name,
+      start: formatTimeShort(startTime),
+      end: formatTimeShort(endTime),
+      startAt: createTimestamp(startTime, sunriseTime, formatTimeShort),
+      endAt: createTimestamp(endTime, sunriseTime, formatTimeShort),
+    });
+  }
+
+  return periods;
+}
+
+/**
+ * Calculate Varjyam (Thyajyam) between sunrise and the next sunrise.
+ *
+ * @param sunriseJD - Julian Day of sunrise
+ * @param nextSunriseJD - Julian Day of the next sunrise
+ * @param timezone - Timezone for formatting times
+ * @returns Varjyam periods in time order
+ */
+export function calculateVarjyam(
+  sunriseJD: number,
+  nextSunriseJD: number,
+  timezone: string
+): MuhurtaPeriod[] {
+  return calculateKalams(
+    findNakshatraSpans(sunriseJD, nextSunriseJD),
+    VARJYAM_START_GHATIS,
+    MUHURTA_PERIOD_NAMES.varjyam,
+    sunriseJD,
+    nextSunriseJD,
+    timezone
+  );
+}
+
+/**
+ * Calculate Amrita Kalam between sunrise and the next sunrise.
+ *
+ * @param sunriseJD - Julian Day of sunrise
+ * @param nextSunriseJD - Julian Day of the next sunrise
+ * @param timezone - Timezone for formatting times
+ * @returns Amrita Kalam periods in time order
+ */
+export function calculateAmritaKalam(
+  sunriseJD: number,
+  nextSunriseJD: number,
+  timezone: string
+): MuhurtaPeriod[] {
+  return calculateKalams(
+    findNakshatraSpans(sunriseJD, nextSunriseJD),
+    AMRITA_KALAM_START_GHATIS,
+    MUHURTA_PERIOD_NAMES.amritaKalam,
+    sunriseJD,
+    nextSunriseJD,
+    timezone
+  );
+}
@@ -0,0 +1,57 @@
+/**
+ * Navagraha Calculator
+ *
+ * Calculates the sidereal positions of the nine grahas (Graha Nilai).
+ * Every printed Tamil panchangam shows this table for sunrise:
+ * the rasi, nakshatra and pada occupied by each planet, and whether it is retrograde.
+ */
+
+import { GrahaInfo, NodeType } from '../types/panchangam.js';
+import { getGrahaLongitude, getGrahaSpeed } from './swisseph.js';
+import { GRAHAS } from '../config/graha.js';
+import { getRasiIndex, getDegreeInRasi, getRasiConfig } from '../config/rasi.js';
+import { getNakshatraIndex, getNakshatraPada, getNakshatraConfig } from '../config/nakshatra.js';
+
+/**
+ * Calculate positions of all nine grahas for a given time.
+ *
+ * @param julianDay - Julian Day Number
+ * @param nodeType - Mean or true lunar node for Rahu/Ketu
+ * @returns Array of GrahaInfo in traditional Navagraha order
+ */
+export function calculateGrahaPositions(julianDay: number, nodeType: NodeType = 'mean'): GrahaInfo[] {
+  return GRAHAS.map(graha => {
+    const longitude = getGrahaLongitude(graha.id, julianDay, nodeType);
+    const speed = getGrahaSpeed(graha.id, julianDay, nodeType);
+
+    const rasiIndex = getRasiIndex(longitude);
+    const rasiConfig = getRasiConfig(rasiIndex);
+    if (!rasiConfig) {
+      throw new Error(`Invalid rasi index: ${rasiIndex}`);
+    }
+
+    const nakshatraIndex = getNakshatraIndex(longitude);
+    const nakshatraConfig = getNakshatraConfig(nakshatraIndex);
+    if (!nakshatraConfig) {
+      throw new Error(`Invalid nakshatra index: ${nakshatraIndex}`);
+    }
+
+    return {
+      id: graha.id,
+      name: graha.name,
+      longitude: Math.round(longitude * 1000) / 1000,
+      rasi: {
+        index: rasiIndex,
+        name: rasiConfig.name,
+        degree: Math.round(getDegreeInRasi(longitude) * 1000) / 1000,
+      },
+      nakshatra: {
+        index: nakshatraIndex,
+        name: nakshatraConfig.name,
+        pada: getNakshatraPada(longitude),
+      },
+      speed: Math.round(speed * 10000) / 10000,
+      isRetrograde: speed < 0,
+    };
+  });
+}
@@ -0,0 +1,73 @@
+/**
+ * Panchaka Calculator
+ *
+ * Finds the Panchaka (the Moon from Dhanishta pada 3 to the end of Revati)
+ * overlapping the panchangam day, with its type by the weekday it begins on.
+ */
+
+import { PanchakaPeriod } from '../types/panchangam.js';
+import { getMoonLongitude } from './swisseph.js';
+import { findAngleCrossings } from './events.js';
+import {
+  PANCHAKA_START_DEGREE,
+  PANCHAKA_END_DEGREE,
+  PANCHAKA_NAME,
+  getPanchakaType,
+} from '../config/panchaka.js';
+import { julianDayToDateTime, formatTimeShort, createTimestamp, getDayOfWeek } from '../utils/datetime.js';
+
+// Longer than a Panchaka (about 4.5 days)
+const LOOKAROUND_DAYS = 5;
+
+/**
+ * Calculate the Panchaka periods overlapping sunrise to the next sunrise.
+ *
+ * @param sunriseJD - Julian Day of sunrise
+ * @param nextSunriseJD - Julian Day of the next sunrise
+ * @param timezone - Timezone for formatting times
+ * @returns Panchaka periods (at most one), each in full
+ */
+export function calculatePanchaka(
+  sunriseJD: number,
+  nextSunriseJD: number,
+  timezone: string
+): PanchakaPeriod[] {
+  const endDegree = PANCHAKA_END_DEGREE % 360;
+  const crossings = findAngleCrossings(
+    sunriseJD - LOOKAROUND_DAYS,
+    nextSunriseJD + LOOKAROUND_DAYS,
+    [PANCHAKA_START_DEGREE, endDegree],
+    getMoonLongitude
+  );
+
+  const sunriseTime = julianDayToDateTime(sunriseJD, timezone);
+  const periods: PanchakaPeriod[] = [];
+
+  for (let i = 0; i < crossings.length - 1; i++) {
+    const start = crossings[i]!;
+    const end = crossings[i + 1]!;
+    // The Moon always moves forward: each entry is followed by its exit
+    if (start.target !== PANCHAKA_START_DEGREE || end.target !== endDegree) {
+      continue;
+    }
+    if (end.jd <= sunriseJD || start.jd >= nextSunriseJD) {
+      continue;
+    }
+
+    const startTime = julianDayToDateTime(start.jd, timezone);
+    const endTime = julianDayToDateTime(end.jd, timezone);
+    // Weekday of the local date on which it begins
+    const type = getPanchakaType(getDayOfWeek(startTime.toISODate() ?? '', timezone));
+
+    periods.push({
+      name: PANCHAKA_NAME,
+      start: formatTimeShort(startTime),
+      end: formatTimeShort(endTime),
+      startAt: createTimestamp(startTime, sunriseTime, formatTimeShort),
+      endAt: createTimestamp(endTime, sunriseTime, formatTimeShort),
+      type: type ? { id: type.id, name: type.name } : null,
+    });
+  }
+
+  return periods;
+}
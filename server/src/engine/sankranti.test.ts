@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { calculateTamilMonths, findTamilMonth } from './sankranti.js';
+
+const CHENNAI = { latitude: 13.0827, longitude: 80.2707, timezone: 'Asia/Kolkata' };
+
+function getMonths(year: number) {
+  return calculateTamilMonths(year, CHENNAI.latitude, CHENNAI.longitude, CHENNAI.timezone);
+}
+
+describe('calculateTamilMonths', () => {
+  it('starts the months of 2025 on the day of the Sankranti by the sunset rule', () => {
+    expect(getMonths(2025).map(m => m.startDate)).toEqual([
+      '2025-04-14',   // Chithirai
+      '2025-05-15',   // Vaikasi
+      '2025-06-15',   // Aani
+      '2025-07-16',   // Aadi
+      '2025-08-17',   // Aavani
+      '2025-09-17',   // Purattasi
+      '2025-10-17',   // Aippasi
+      '2025-11-16',   // Karthigai
+      '2025-12-16',   // Margazhi
+      '2026-01-14',   // Thai
+      '2026-02-13',   // Maasi
+      '2026-03-15',   // Panguni
+    ]);
+  });
+
+  it('ends each month the day before the next begins', () => {
+    const months = getMonths(2025);
+    const totalDays = months.reduce((sum, m) => sum + m.totalDays, 0);
+    expect(totalDays).toBe(365);
+    expect(months[0]!.endDate).toBe('2025-05-14');
+  });
+
+  it.each([999, 50, 1, 6000, 9999])('handles the year %i', (year) => {
+    const months = getMonths(year);
+    expect(months).toHaveLength(12);
+    expect(months[0]!.startDate.startsWith(String(year).padStart(4, '0'))).toBe(true);
+  });
+
+  it('follows Mesha Sankranti as it drifts through the Gregorian year', () => {
+    expect(getMonths(1)[0]!.startDate).toBe('0001-03-17');
+    expect(getMonths(6000)[0]!.startDate).toBe('6000-06-07');
+    expect(getMonths(9999)[0]!.startDate).toBe('9999-08-01');
+  });
+});
+
+describe('findTamilMonth', () => {
+  it('finds Thai 1 on Pongal', () => {
+    const { year, month, day } = findTamilMonth(
+      '2025-01-14', CHENNAI.latitude, CHENNAI.longitude, CHENNAI.timezone
+    );
+    expect(year).toBe(2024);
+    expect(month.index).toBe(10);
+    expect(day).toBe(1);
+  });
+
+  it('finds the last day accepted, in a month that ends in the year 10000', () => {
+    const { year, month } = findTamilMonth(
+      '9999-12-31', CHENNAI.latitude, CHENNAI.longitude, CHENNAI.timezone
+    );
+    expect(year).toBe(9999);
+    expect(month.endDate.startsWith('+010000')).toBe(true);
+  });
+
+  it('finds the day after, in the Tamil year begun in 9999', () => {
+    const { year } = findTamilMonth(
+      '+010000-01-01', CHENNAI.latitude, CHENNAI.longitude, CHENNAI.timezone
+    );
+    expect(year).toBe(9999);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Sankranti Calculator
+ *
+ * A Sankranti is the moment the Sun enters a sidereal rasi; each one begins
+ * a Tamil month. The first day of the month follows the Tamil sunset rule:
+ * - Sankranti before sunset: that day is Day 1 of the new month.
+ * - Sankranti after sunset: the next day is Day 1.
+ *
+ * The month table for a Tamil year (Chithirai to Panguni) is computed once
+ * from the exact ingress times and cached per location and settings.
+ */
+
+import { DateTime } from 'luxon';
+import { DayBoundaryOptions, TamilMonthInfo } from '../types/panchangam.js';
+import { getSunLongitude, getAyanamsa, getSiderealMode } from './swisseph.js';
+import { findSegmentCrossings } from './events.js';
+import { calculateDayBoundaries, DEFAULT_DAY_BOUNDARY_OPTIONS } from './dayBoundary.js';
+import { TAMIL_MONTHS } from '../config/tamilCalendar.js';
+import {
+  createDateTime,
+  dateToJulianDay,
+  formatISODate,
+  julianDayToDateTime,
+  createTimestamp,
+} from '../utils/datetime.js';
+import { createLruCache } from '../utils/lruCache.js';
+
+export interface Sankranti {
+  jd: number;             // Julian Day of the ingress
+  rasiIndex: number;      // 1-12, rasi the Sun enters
+}
+
+// The Sun moves about 1° a day, so a 5-day step brackets every 30° ingress
+const SANKRANTI_SEARCH_STEP = 5;
+
+// The year's Mesha Sankranti falls within 366 days of 1 January, and the
+// twelve Sankrantis after it within 366 more
+const TAMIL_YEAR_SEARCH_DAYS = 2 * 366;
+
+// Two Tamil years for each of a few dozen recent locations and settings
+const MONTH_TABLE_CACHE_SIZE = 64;
+
+const monthTableCache = createLruCache<TamilMonthInfo[]>(MONTH_TABLE_CACHE_SIZE);
+
+/**
+ * Find every Sankranti between two Julian Days.
+ */
+export function findSankrantis(startJD: number, endJD: number): Sankranti[] {
+  return findSegmentCrossings(startJD, endJD, 30, getSunLongitude, { step: SANKRANTI_SEARCH_STEP })
+    .map(c => ({ jd: c.jd, rasiIndex: (Math.round(c.target / 30) % 12) + 1 }));
+}
+
+/**
+ * Get the first day (YYYY-MM-DD) of the month begun by a Sankranti, by the sunset rule.
+ */
+function getMonthStartDate(
+  sankrantiJD: number,
+  latitude: number,
+  longitude: number,
+  timezone: string,
+  options: DayBoundaryOptions
+): string {
+  const localDate = julianDayToDateTime(sankrantiJD, timezone).toISODate() ?? '';
+  const { sunsetJD } = calculateDayBoundaries(localDate, latitude, longitude, timezone, options);
+
+  if (sankrantiJD <= sunsetJD) {
+    return localDate;
+  }
+  return createDateTime(localDate, timezone).plus({ days: 1 }).toISODate() ?? localDate;
+}
+
+/**
+ * Number of calendar days between two YYYY-MM-DD dates.
+ */
+function daysBetween(fromDate: string, toDate: string): number {
+  const from = DateTime.fromISO(fromDate, { zone: 'UTC' });
+  const to = DateTime.fromISO(toDate, { zone: 'UTC' });
+  return Math.round(to.diff(from, 'days').days);
+}
+
+/**
+ * Calculate the twelve months of the Tamil year that begins in a Gregorian year.
+ *
+ * @param year - Gregorian year in which Chithirai (Mesha Sankranti) falls
+ * @param options - Sunrise definition and high-latitude policy for the sunset rule
+ * @returns Months from Chithirai to Panguni with start dates and lengths
+ */
+export function calculateTamilMonths(
+  year: number,
+  latitude: number,
+  longitude: number,
+  timezone: string,
+  options: DayBoundaryOptions = DEFAULT_DAY_BOUNDARY_OPTIONS
+): TamilMonthInfo[] {
+  // Mesha Sankranti falls on 13-15 April today, but drifts by about a day
+  // every 70 years and moves with the ayanamsa, so search from 1 January
+  const startJD = dateToJulianDay(formatISODate(year, 1, 1), timezone);
+  const endJD = startJD + TAMIL_YEAR_SEARCH_DAYS;
+
+  const cacheKey = [
+    year, latitude, longitude, timezone, JSON.stringify(options),
+    getSiderealMode(), getAyanamsa(startJD),
+  ].join('|');
+  const cached = monthTableCache.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const sankrantis = findSankrantis(startJD, endJD);
+  const first = sankrantis.findIndex(s => s.rasiIndex === 1);
+  const yearSankrantis = sankrantis.slice(first, first + 13);
+  if (first < 0 || yearSankrantis.length < 13) {
+    throw new Error(`Sankrantis not found for Tamil year ${year}`);
+  }
+
+  const startDates = yearSankrantis.map(s =>
+    getMonthStartDate(s.jd, latitude, longitude, timezone, options)
+  );
+
+  const months: TamilMonthInfo[] = [];
+  for (let i = 0; i < 12; i++) {
+    const sankranti = yearSankrantis[i]!;
+    const startDate = startDates[i]!;
+    const nextStartDate = startDates[i + 1]!;
+    const monthConfig = TAMIL_MONTHS[sankranti.rasiIndex - 1]!;
+
+    months.push({
+      index: monthConfig.index,
+      name: monthConfig.name,
+      sankranti: createTimestamp(
+        julianDayToDateTime(sankranti.jd, timezone),
+        createDateTime(startDate, timezone)
+      ),
+      startDate,
+      endDate: createDateTime(nextStartDate, timezone).minus({ days: 1 }).toISODate() ?? nextStartDate,
+      totalDays: daysBetween(startDate, nextStartDate),
+    });
+  }
+
+  monthTableCache.set(cacheKey, months);
+  return months;
+}
+
+/**
+ * Find the Tamil month containing a date.
+ *
+ * @param dateStr - YYYY-MM-DD
+ * @returns The Tamil year (Gregorian year of its Chithirai), the month and the day number within it
+ */
+export function findTamilMonth(
+  dateStr: string,
+  latitude: number,
+  longitude: number,
+  timezone: string,
+  options: DayBoundaryOptions = DEFAULT_DAY_BOUNDARY_OPTIONS
+): { year: number; month: TamilMonthInfo; day: number } {
+  // The day after 9999-12-31 is written +010000-01-01
+  const year = parseInt(dateStr, 10);
+
+  // Dates before Chithirai 1 belong to the Tamil year that began the previous April
+  const candidateYears = dateStr.slice(-5) < '04-15' ? [year - 1, year] : [year, year - 1];
+  for (const tamilYear of candidateYears) {
+    // Count days rather than compare strings: the last Tamil year runs into 10000
+    for (const month of calculateTamilMonths(tamilYear, latitude, longitude, timezone, options)) {
+      const day = daysBetween(month.startDate, dateStr) + 1;
+      if (day >= 1 && day <= month.totalDays) {
+        return { year: tamilYear, month, day };
+      }
+    }
+  }
+
+  throw new Error(`Tamil month not found for ${dateStr}`);
+}
@@ -0,0 +1,41 @@
+/**
+ * Season Calculator
+ *
+ * Derives the seasonal markers printed in Tamil panchangams from the Sun's
+ * sidereal longitude: the Ritu, the Ayana, and the nakshatra and pada the
+ * Sun occupies (Surya nakshatra, which changes about every 13-14 days).
+ */
+
+import { SeasonInfo } from '../types/panchangam.js';
+import { getSunLongitude } from './swisseph.js';
+import { getRitu, getAyana } from '../config/season.js';
+import { getNakshatraIndex, getNakshatraPada, getNakshatraConfig } from '../config/nakshatra.js';
+
+/**
+ * Calculate the seasonal markers for a given Julian Day.
+ *
+ * @param julianDay - Julian Day Number (normally sunrise)
+ * @returns Ritu, ayana and Surya nakshatra/pada
+ */
+export function calculateSeason(julianDay: number): SeasonInfo {
+  const sunLongitude = getSunLongitude(julianDay);
+  const ritu = getRitu(sunLongitude);
+  const ayana = getAyana(sunLongitude);
+
+  const nakshatraIndex = getNakshatraIndex(sunLongitude);
+  const nakshatraConfig = getNakshatraConfig(nakshatraIndex);
+  if (!nakshatraConfig) {
+    throw new Error(`Invalid nakshatra index: ${nakshatraIndex}`);
+  }
+
+  return {
+    ritu: { index: ritu.index, name: ritu.name },
+    ayana: { id: ayana.id, name: ayana.name },
+    suryaNakshatra: {
+      index: nakshatraIndex,
+      name: nakshatraConfig.name,
+      pada: getNakshatraPada(sunLongitude),
+    },
+    sunLongitude: Math.round(sunLongitude * 1000) / 1000,
+  };
+}
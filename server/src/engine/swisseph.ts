@@ -2,176 +2,120 @@
  * Astronomy Engine
  *
  * Provides astronomical calculations for Panchangam using pure JavaScript libraries.
- * Uses 'astronomia' for planetary positions and 'suncalc' for sunrise/sunset.
- * All calculations use sidereal zodiac with Lahiri ayanamsa.
+ * Uses 'astronomia' for planetary positions; sunrise/sunset are solved from the
+ * same apparent Sun so that every definition (limb, refraction, elevation) is consistent.
+ * All calculations use the sidereal zodiac; the ayanamsa system is selectable
+ * (Lahiri by default) via setSiderealMode.
+ *
+ * Every `jd` argument is a UTC Julian Day. Ephemeris theories are evaluated
+ * in Terrestrial Time and sidereal time in UT1 (see utils/timescale).
  */
 
-import SunCalc from 'suncalc';
 import { DateTime } from 'luxon';
 import Decimal from 'decimal.js';
+import { AstroCoord, planetposition, moonposition, solar, nutation } from 'astronomia';
+import vsop87Bearth from 'astronomia/data/vsop87Bearth';
+import vsop87Bmercury from 'astronomia/data/vsop87Bmercury';
+import vsop87Bvenus from 'astronomia/data/vsop87Bvenus';
+import vsop87Bmars from 'astronomia/data/vsop87Bmars';
+import vsop87Bjupiter from 'astronomia/data/vsop87Bjupiter';
+import vsop87Bsaturn from 'astronomia/data/vsop87Bsaturn';
+import { GrahaId, NodeType, AyanamsaSystem, SunriseDefinition, SunriseOptions } from '../types/panchangam.js';
+import { calculateAyanamsa } from './ayanamsa.js';
+import { DEFAULT_AYANAMSA } from '../config/ayanamsa.js';
+import { utcToTT, utcToUT1 } from '../utils/timescale.js';
 
-// Lahiri Ayanamsa (approximate value for 2025)
-// Ayanamsa increases by about 50.3 arcsec per year
-// Reference: 23°51'11" on Jan 1, 2000
-const AYANAMSA_2000 = 23.85306; // degrees
-const AYANAMSA_RATE = 50.3 / 3600; // degrees per year
+/**
+ * Active sidereal mode (cf. swe_set_sid_mode in Swiss Ephemeris).
+ * Set once per calculation so that every engine module uses the same ayanamsa.
+ */
+let siderealMode: { system: AyanamsaSystem; fixedValue?: number | undefined } = {
+  system: DEFAULT_AYANAMSA,
+};
 
 /**
- * Calculate Lahiri Ayanamsa for a given year.
+ * Select the ayanamsa system used by all sidereal calculations.
+ *
+ * @param system - Ayanamsa system
+ * @param fixedValue - Ayanamsa in degrees, required for the 'fixed' system
  */
-export function getAyanamsa(year: number): number {
-  const yearsSince2000 = year - 2000;
-  return AYANAMSA_2000 + (yearsSince2000 * AYANAMSA_RATE);
+export function setSiderealMode(system: AyanamsaSystem, fixedValue?: number): void {
+  if (system === 'fixed' && fixedValue === undefined) {
+    throw new Error('Fixed ayanamsa requires a value');
+  }
+  siderealMode = { system, fixedValue };
 }
 
 /**
- * Convert tropical longitude to sidereal.
+ * Get the active ayanamsa system.
  */
-export function tropicalToSidereal(tropicalLongitude: number, year: number): number {
-  const ayanamsa = getAyanamsa(year);
-  let sidereal = tropicalLongitude - ayanamsa;
-  // Normalize to 0-360
-  sidereal = ((sidereal % 360) + 360) % 360;
-  return sidereal;
+export function getSiderealMode(): AyanamsaSystem {
+  return siderealMode.system;
 }
 
 /**
- * Calculate Julian Day for a given date.
+ * Calculate the ayanamsa of the active sidereal mode for a given Julian Day.
  */
-export function dateToJulianDay(date: Date): number {
-  const year = date.getUTCFullYear();
-  const month = date.getUTCMonth() + 1;
-  const day = date.getUTCDate();
-  const hour = date.getUTCHours() + date.getUTCMinutes() / 60 + date.getUTCSeconds() / 3600;
-
-  let y = year;
-  let m = month;
-
-  if (m <= 2) {
-    y -= 1;
-    m += 12;
-  }
-
-  const a = Math.floor(y / 100);
-  const b = 2 - a + Math.floor(a / 4);
-
-  const jd = Math.floor(365.25 * (y + 4716)) +
-             Math.floor(30.6001 * (m + 1)) +
-             day + (hour / 24) + b - 1524.5;
-
-  return jd;
+export function getAyanamsa(jd: number): number {
+  return calculateAyanamsa(utcToTT(jd), siderealMode.system, siderealMode.fixedValue);
 }
 
 /**
- * Convert Julian Day to Date.
+ * Convert tropical longitude to sidereal.
+ * Tropical longitudes are apparent (true equinox of date), so the ayanamsa
+ * is corrected for nutation as well.
  */
-export function julianDayToDate(jd: number): Date {
-  const z = Math.floor(jd + 0.5);
-  const f = (jd + 0.5) - z;
-
-  let a = z;
-  if (z >= 2299161) {
-    const alpha = Math.floor((z - 1867216.25) / 36524.25);
-    a = z + 1 + alpha - Math.floor(alpha / 4);
-  }
-
-  const b = a + 1524;
-  const c = Math.floor((b - 122.1) / 365.25);
-  const d = Math.floor(365.25 * c);
-  const e = Math.floor((b - d) / 30.6001);
-
-  const day = b - d - Math.floor(30.6001 * e) + f;
-  const month = e < 14 ? e - 1 : e - 13;
-  const year = month > 2 ? c - 4716 : c - 4715;
-
-  const dayInt = Math.floor(day);
-  const dayFrac = day - dayInt;
-  const hours = dayFrac * 24;
-  const hourInt = Math.floor(hours);
-  const minutes = (hours - hourInt) * 60;
-  const minuteInt = Math.floor(minutes);
-  const seconds = (minutes - minuteInt) * 60;
+export function tropicalToSidereal(tropicalLongitude: number, jd: number): number {
+  const ayanamsa = getAyanamsa(jd) + getNutationInLongitude(jd);
+  let sidereal = tropicalLongitude - ayanamsa;
+  // Normalize to 0-360
+  sidereal = ((sidereal % 360) + 360) % 360;
+  return sidereal;
+}
 
-  return new Date(Date.UTC(year, month - 1, dayInt, hourInt, minuteInt, Math.floor(seconds)));
+/**
+ * Nutation in longitude (Δψ) in degrees (Meeus, Astronomical Algorithms, ch. 22).
+ * Added to geometric longitudes to refer them to the true equinox of date.
+ */
+export function getNutationInLongitude(jd: number): number {
+  return nutation.nutation(utcToTT(jd))[0] * 180 / Math.PI;
 }
 
 /**
- * Calculate Sun's tropical longitude (approximate, VSOP87-based simplified).
- * Good for Panchangam accuracy (within 1 arcminute).
+ * Calculate Sun's apparent tropical longitude by the full VSOP87 theory.
+ * Includes the FK5 correction, nutation and aberration (Meeus ch. 25).
+ * Accurate to about 1 arcsecond.
  */
 export function getSunTropicalLongitude(jd: number): number {
-  // Julian centuries from J2000.0
-  const T = (jd - 2451545.0) / 36525.0;
-
-  // Mean longitude of Sun (degrees)
-  let L0 = 280.46646 + 36000.76983 * T + 0.0003032 * T * T;
-  L0 = L0 % 360;
-  if (L0 < 0) L0 += 360;
-
-  // Mean anomaly of Sun (degrees)
-  let M = 357.52911 + 35999.05029 * T - 0.0001537 * T * T;
-  M = M % 360;
-  if (M < 0) M += 360;
-
-  // Equation of center
-  const Mrad = M * Math.PI / 180;
-  const C = (1.914602 - 0.004817 * T - 0.000014 * T * T) * Math.sin(Mrad) +
-            (0.019993 - 0.000101 * T) * Math.sin(2 * Mrad) +
-            0.000289 * Math.sin(3 * Mrad);
-
-  // Sun's true longitude
-  let sunLongitude = L0 + C;
+  const { lon } = solar.apparentVSOP87(EARTH, utcToTT(jd));
+
+  let sunLongitude = lon * 180 / Math.PI;
   sunLongitude = sunLongitude % 360;
   if (sunLongitude < 0) sunLongitude += 360;
 
   return sunLongitude;
 }
 
+// Speed of light in km per day
+const SPEED_OF_LIGHT_KM_PER_DAY = 299792.458 * 86400;
+
+// Moon's mean daily motion in longitude (degrees per day)
+const MOON_MEAN_MOTION = 481267.88123421 / 36525;
+
 /**
- * Calculate Moon's tropical longitude (approximate).
- * Good for Panchangam accuracy (within 0.5 degrees).
+ * Calculate Moon's apparent tropical longitude.
+ * Uses the full Meeus/ELP-2000/82 periodic series (ch. 47), corrected
+ * for light-time and nutation. Accurate to about 10 arcseconds.
  */
 export function getMoonTropicalLongitude(jd: number): number {
-  // Julian centuries from J2000.0
-  const T = (jd - 2451545.0) / 36525.0;
-
-  // Moon's mean longitude
-  let L1 = 218.3164477 + 481267.88123421 * T - 0.0015786 * T * T;
-  L1 = L1 % 360;
-  if (L1 < 0) L1 += 360;
-
-  // Moon's mean anomaly
-  let M1 = 134.9633964 + 477198.8675055 * T + 0.0087414 * T * T;
-  M1 = M1 % 360;
-  if (M1 < 0) M1 += 360;
-  const M1rad = M1 * Math.PI / 180;
-
-  // Sun's mean anomaly
-  let M = 357.5291092 + 35999.0502909 * T;
-  M = M % 360;
-  if (M < 0) M += 360;
-  const Mrad = M * Math.PI / 180;
-
-  // Moon's argument of latitude
-  let F = 93.2720950 + 483202.0175233 * T;
-  F = F % 360;
-  if (F < 0) F += 360;
-  const Frad = F * Math.PI / 180;
-
-  // Mean elongation of Moon
-  let D = 297.8501921 + 445267.1114034 * T;
-  D = D % 360;
-  if (D < 0) D += 360;
-  const Drad = D * Math.PI / 180;
-
-  // Principal longitude terms
-  let longitude = L1 +
-    6.289 * Math.sin(M1rad) +
-    1.274 * Math.sin(2 * Drad - M1rad) +
-    0.658 * Math.sin(2 * Drad) +
-    0.214 * Math.sin(2 * M1rad) -
-    0.186 * Math.sin(Mrad) -
-    0.114 * Math.sin(2 * Frad);
+  const { lon, range } = moonposition.position(utcToTT(jd));
+
+  // Light-time: the Moon is seen where it was ~1.3 seconds earlier
+  const lightTime = range / SPEED_OF_LIGHT_KM_PER_DAY;
+
+  let longitude = lon * 180 / Math.PI -
+                  MOON_MEAN_MOTION * lightTime +
+                  getNutationInLongitude(jd);
 
   longitude = longitude % 360;
   if (longitude < 0) longitude += 360;
@@ -184,8 +128,7 @@ export function getMoonTropicalLongitude(jd: number): number {
  */
 export function getSunLongitude(jd: number): number {
   const tropical = getSunTropicalLongitude(jd);
-  const date = julianDayToDate(jd);
-  return tropicalToSidereal(tropical, date.getUTCFullYear());
+  return tropicalToSidereal(tropical, jd);
 }
 
 /**
@@ -193,8 +136,7 @@ export function getSunLongitude(jd: number): number {
  */
 export function getMoonLongitude(jd: number): number {
   const tropical = getMoonTropicalLongitude(jd);
-  const date = julianDayToDate(jd);
-  return tropicalToSidereal(tropical, date.getUTCFullYear());
+  return tropicalToSidereal(tropical, jd);
 }
 
 /**
@@ -208,122 +150,355 @@ export function getSunMoonPositions(jd: number): { sun: number; moon: number } {
 }
 
 /**
- * Calculate sunrise time using SunCalc.
- * Returns Julian Day of sunrise.
+ * Planets computed from the full VSOP87 theory.
  */
-export function calculateSunrise(jd: number, latitude: number, longitude: number): number {
-  const date = julianDayToDate(jd);
-  const times = SunCalc.getTimes(date, latitude, longitude);
+export type PlanetId = 'mars' | 'mercury' | 'jupiter' | 'venus' | 'saturn';
+
+const EARTH = new planetposition.Planet(vsop87Bearth);
 
-  if (!times.sunrise || isNaN(times.sunrise.getTime())) {
-    // Fallback: approximate based on noon
-    const noonDate = new Date(date);
-    noonDate.setUTCHours(6, 0, 0, 0);
-    return dateToJulianDay(noonDate);
+// The Sun, sunrise and every planet evaluate the Earth's VSOP87 series, often
+// at the same instants (the limbs of a day are searched on one sample grid),
+// so the latest positions are kept. Positions depend only on the instant.
+const EARTH_POSITION_CACHE_SIZE = 1024;
+const earthPositions = new Map<number, AstroCoord>();
+const computeEarthPosition = EARTH.position.bind(EARTH);
+
+EARTH.position = (jde: number): AstroCoord => {
+  const cached = earthPositions.get(jde);
+  if (cached) {
+    return cached;
+  }
+
+  const position = computeEarthPosition(jde);
+  earthPositions.set(jde, position);
+  if (earthPositions.size > EARTH_POSITION_CACHE_SIZE) {
+    const oldest = earthPositions.keys().next();
+    if (!oldest.done) {
+      earthPositions.delete(oldest.value);
+    }
+  }
+  return position;
+};
+
+const PLANETS: Record<PlanetId, planetposition.Planet> = {
+  mercury: new planetposition.Planet(vsop87Bmercury),
+  venus: new planetposition.Planet(vsop87Bvenus),
+  mars: new planetposition.Planet(vsop87Bmars),
+  jupiter: new planetposition.Planet(vsop87Bjupiter),
+  saturn: new planetposition.Planet(vsop87Bsaturn),
+};
+
+// Light travel time for 1 AU, in days
+const LIGHT_TIME_PER_AU = 0.0057755183;
+
+/**
+ * Calculate a planet's apparent geocentric tropical longitude.
+ * Heliocentric VSOP87 positions of the planet and Earth are differenced,
+ * iterating for light-time (Meeus, Astronomical Algorithms, ch. 33),
+ * and nutation is added.
+ */
+export function getPlanetTropicalLongitude(planet: PlanetId, jd: number): number {
+  const jde = utcToTT(jd);
+  const earth = EARTH.position(jde);
+  const earthX = earth.range * Math.cos(earth.lat) * Math.cos(earth.lon);
+  const earthY = earth.range * Math.cos(earth.lat) * Math.sin(earth.lon);
+
+  let lightTime = 0;
+  let x = 0;
+  let y = 0;
+
+  for (let i = 0; i < 3; i++) {
+    const pos = PLANETS[planet].position(jde - lightTime);
+    x = pos.range * Math.cos(pos.lat) * Math.cos(pos.lon) - earthX;
+    y = pos.range * Math.cos(pos.lat) * Math.sin(pos.lon) - earthY;
+    const z = pos.range * Math.sin(pos.lat) - earth.range * Math.sin(earth.lat);
+    lightTime = LIGHT_TIME_PER_AU * Math.sqrt(x * x + y * y + z * z);
   }
 
-  return dateToJulianDay(times.sunrise);
+  let longitude = Math.atan2(y, x) * 180 / Math.PI + getNutationInLongitude(jd);
+  longitude = longitude % 360;
+  if (longitude < 0) longitude += 360;
+
+  return longitude;
 }
 
 /**
- * Calculate sunset time using SunCalc.
- * Returns Julian Day of sunset.
+ * Calculate Rahu's (Moon's ascending node) tropical longitude.
+ * The mean node moves uniformly; the true node includes the main periodic terms.
  */
-export function calculateSunset(jd: number, latitude: number, longitude: number): number {
-  const date = julianDayToDate(jd);
-  const times = SunCalc.getTimes(date, latitude, longitude);
+export function getRahuTropicalLongitude(jd: number, nodeType: NodeType = 'mean'): number {
+  const jde = utcToTT(jd);
+  const node = nodeType === 'true' ? moonposition.trueNode(jde) : moonposition.node(jde);
 
-  if (!times.sunset || isNaN(times.sunset.getTime())) {
-    // Fallback
-    const sunsetDate = new Date(date);
-    sunsetDate.setUTCHours(18, 0, 0, 0);
-    return dateToJulianDay(sunsetDate);
+  let longitude = node * 180 / Math.PI + getNutationInLongitude(jd);
+  longitude = longitude % 360;
+  if (longitude < 0) longitude += 360;
+
+  return longitude;
+}
+
+/**
+ * Get a planet's sidereal longitude.
+ */
+export function getPlanetLongitude(planet: PlanetId, jd: number): number {
+  const tropical = getPlanetTropicalLongitude(planet, jd);
+  return tropicalToSidereal(tropical, jd);
+}
+
+/**
+ * Get Rahu's sidereal longitude.
+ */
+export function getRahuLongitude(jd: number, nodeType: NodeType = 'mean'): number {
+  const tropical = getRahuTropicalLongitude(jd, nodeType);
+  return tropicalToSidereal(tropical, jd);
+}
+
+/**
+ * Get Ketu's sidereal longitude (always opposite Rahu).
+ */
+export function getKetuLongitude(jd: number, nodeType: NodeType = 'mean'): number {
+  return (getRahuLongitude(jd, nodeType) + 180) % 360;
+}
+
+/**
+ * Get the sidereal longitude of any of the nine grahas.
+ */
+export function getGrahaLongitude(graha: GrahaId, jd: number, nodeType: NodeType = 'mean'): number {
+  switch (graha) {
+    case 'sun':
+      return getSunLongitude(jd);
+    case 'moon':
+      return getMoonLongitude(jd);
+    case 'rahu':
+      return getRahuLongitude(jd, nodeType);
+    case 'ketu':
+      return getKetuLongitude(jd, nodeType);
+    default:
+      return getPlanetLongitude(graha, jd);
   }
+}
 
-  return dateToJulianDay(times.sunset);
+/**
+ * Get the daily motion of a graha in degrees per day.
+ * Uses a central difference over one day; negative values mean retrograde motion.
+ */
+export function getGrahaSpeed(graha: GrahaId, jd: number, nodeType: NodeType = 'mean'): number {
+  const before = getGrahaLongitude(graha, jd - 0.5, nodeType);
+  const after = getGrahaLongitude(graha, jd + 0.5, nodeType);
+
+  let diff = after - before;
+  if (diff > 180) diff -= 360;
+  if (diff < -180) diff += 360;
+
+  return diff;
 }
 
 /**
- * Calculate the Ascendant (Lagna) for a given time and location.
- * Uses simplified formula for rising sign.
+ * Altitude of the Sun's centre at rise/set for each sunrise definition (degrees).
  */
-export function calculateAscendant(jd: number, latitude: number, longitude: number): number {
-  // Local Sidereal Time
-  const T = (jd - 2451545.0) / 36525.0;
-  const date = julianDayToDate(jd);
+const SUNRISE_ALTITUDE: Record<SunriseDefinition, number> = {
+  'upper-limb': -0.8333,  // 34' refraction + 16' solar semidiameter
+  'centre': -0.5667,      // 34' refraction, disc centre on the horizon
+  'hindu': 0,             // Disc centre on the geometric horizon, no refraction
+};
+
+// Dip of the horizon per sqrt(metre) of observer elevation (1.76 arcminutes)
+const HORIZON_DIP_PER_SQRT_METRE = 1.76 / 60;
+
+export const DEFAULT_SUNRISE_OPTIONS: SunriseOptions = {
+  definition: 'upper-limb',
+  elevation: 0,
+};
+
+/**
+ * Calculate Greenwich apparent sidereal time in degrees.
+ * Mean sidereal time follows UT1; the equation of the equinoxes uses TT.
+ */
+export function getApparentSiderealTime(jd: number): number {
+  const jdUT1 = utcToUT1(jd);
+  const T = (jdUT1 - 2451545.0) / 36525.0;
 
   // Greenwich Mean Sidereal Time
-  let GMST = 280.46061837 + 360.98564736629 * (jd - 2451545.0) + 0.000387933 * T * T;
+  let GMST = 280.46061837 + 360.98564736629 * (jdUT1 - 2451545.0) + 0.000387933 * T * T;
+
+  // Equation of the equinoxes
+  const jde = utcToTT(jd);
+  const [deltaPsi, deltaEpsilon] = nutation.nutation(jde);
+  const epsilon = nutation.meanObliquity(jde) + deltaEpsilon;
+  GMST += deltaPsi * Math.cos(epsilon) * 180 / Math.PI;
+
   GMST = GMST % 360;
   if (GMST < 0) GMST += 360;
 
-  // Local Sidereal Time
-  let LST = GMST + longitude;
-  LST = LST % 360;
-  if (LST < 0) LST += 360;
+  return GMST;
+}
 
-  // Obliquity of ecliptic
-  const epsilon = 23.4393 - 0.0000004 * (jd - 2451545.0);
-  const epsilonRad = epsilon * Math.PI / 180;
-  const latRad = latitude * Math.PI / 180;
-  const LSTrad = LST * Math.PI / 180;
+/**
+ * Iterate on the Sun's local hour angle until it reaches a target (Meeus ch. 15).
+ * The target is recomputed from the Sun's declination on every step;
+ * converges to the event nearest the guess.
+ *
+ * @param getTargetHourAngle - Target hour angle in degrees for a declination (radians),
+ *                             or null if the event does not occur
+ * @returns Julian Day of the event, or null if it does not occur
+ */
+function iterateSunHourAngle(
+  guessJD: number,
+  longitude: number,
+  getTargetHourAngle: (dec: number) => number | null
+): number | null {
+  let jd = guessJD;
+
+  for (let i = 0; i < 10; i++) {
+    const { ra, dec } = solar.apparentEquatorialVSOP87(EARTH, utcToTT(jd));
+
+    const targetHourAngle = getTargetHourAngle(dec);
+    if (targetHourAngle === null) {
+      return null;
+    }
+
+    // Current local hour angle of the Sun
+    const hourAngle = getApparentSiderealTime(jd) + longitude - ra * 180 / Math.PI;
 
-  // Calculate Ascendant
-  const tanAsc = Math.cos(LSTrad) / (-Math.sin(LSTrad) * Math.cos(epsilonRad) - Math.tan(latRad) * Math.sin(epsilonRad));
-  let asc = Math.atan(tanAsc) * 180 / Math.PI;
+    let diff = targetHourAngle - hourAngle;
+    diff = ((diff % 360) + 540) % 360 - 180;
 
-  // Adjust quadrant
-  if (Math.cos(LSTrad) < 0) {
-    asc += 180;
+    const correction = diff / 360.98564736629;
+    jd += correction;
+
+    if (Math.abs(correction) < 1e-6) {
+      break;
+    }
   }
 
-  asc = ((asc % 360) + 360) % 360;
+  return jd;
+}
 
-  // Convert to sidereal
-  return tropicalToSidereal(asc, date.getUTCFullYear());
+/**
+ * Find the time the Sun's centre reaches a given altitude, rising or setting.
+ *
+ * @returns Julian Day of the event, or null if the Sun never reaches the altitude
+ */
+function findSunAltitudeCrossing(
+  guessJD: number,
+  latitude: number,
+  longitude: number,
+  altitude: number,
+  rising: boolean
+): number | null {
+  const latRad = latitude * Math.PI / 180;
+  const altRad = altitude * Math.PI / 180;
+
+  return iterateSunHourAngle(guessJD, longitude, (dec) => {
+    const cosH0 = (Math.sin(altRad) - Math.sin(latRad) * Math.sin(dec)) /
+                  (Math.cos(latRad) * Math.cos(dec));
+    if (cosH0 < -1 || cosH0 > 1) {
+      return null;
+    }
+    const H0 = Math.acos(cosH0) * 180 / Math.PI;
+    return rising ? -H0 : H0;
+  });
 }
 
 /**
- * Find the Julian Day when a specific angle is reached.
- * Uses binary search.
+ * Get the altitude of the Sun's centre at rise/set for the given options.
  */
-export function findAngleCrossing(
-  startJD: number,
-  endJD: number,
-  targetAngle: number,
-  getAngle: (jd: number) => number,
-  tolerance: number = 0.001
-): number {
-  const maxIterations = 50;
-  let low = startJD;
-  let high = endJD;
+function getSunriseAltitude(options: SunriseOptions): number {
+  const dip = HORIZON_DIP_PER_SQRT_METRE * Math.sqrt(Math.max(options.elevation, 0));
+  return SUNRISE_ALTITUDE[options.definition] - dip;
+}
 
-  for (let i = 0; i < maxIterations; i++) {
-    const mid = (low + high) / 2;
-    const currentAngle = getAngle(mid);
+/**
+ * Calculate sunrise time.
+ * Returns Julian Day of the sunrise on the local day starting at `jd`,
+ * or null if the Sun does not rise (polar night or midnight sun).
+ * See engine/dayBoundary.ts for the high-latitude policies applied on such days.
+ *
+ * @param jd - Julian Day of local midnight
+ * @param options - Sunrise definition and observer elevation
+ */
+export function calculateSunrise(
+  jd: number,
+  latitude: number,
+  longitude: number,
+  options: SunriseOptions = DEFAULT_SUNRISE_OPTIONS
+): number | null {
+  const altitude = getSunriseAltitude(options);
+  return findSunAltitudeCrossing(jd + 0.25, latitude, longitude, altitude, true);
+}
 
-    // Handle wraparound at 0/360 degrees
-    let diff = currentAngle - targetAngle;
-    if (diff > 180) diff -= 360;
-    if (diff < -180) diff += 360;
+/**
+ * Calculate sunset time.
+ * Returns Julian Day of the sunset on the local day starting at `jd`,
+ * or null if the Sun does not set (polar night or midnight sun).
+ *
+ * @param jd - Julian Day of local midnight
+ * @param options - Sunrise definition and observer elevation
+ */
+export function calculateSunset(
+  jd: number,
+  latitude: number,
+  longitude: number,
+  options: SunriseOptions = DEFAULT_SUNRISE_OPTIONS
+): number | null {
+  const altitude = getSunriseAltitude(options);
+  return findSunAltitudeCrossing(jd + 0.75, latitude, longitude, altitude, false);
+}
 
-    if (Math.abs(diff) < tolerance) {
-      return mid;
-    }
+/**
+ * Calculate local apparent noon (upper transit of the Sun).
+ *
+ * @param jd - Julian Day of local midnight
+ */
+export function calculateSolarNoon(jd: number, longitude: number): number {
+  return iterateSunHourAngle(jd + 0.5, longitude, () => 0) ?? jd + 0.5;
+}
 
-    const lowAngle = getAngle(low);
-    let lowDiff = lowAngle - targetAngle;
-    if (lowDiff > 180) lowDiff -= 360;
-    if (lowDiff < -180) lowDiff += 360;
+/**
+ * Whether the Sun's centre is above the rise/set altitude at a given time.
+ */
+export function isSunAboveHorizon(
+  jd: number,
+  latitude: number,
+  longitude: number,
+  options: SunriseOptions = DEFAULT_SUNRISE_OPTIONS
+): boolean {
+  const { ra, dec } = solar.apparentEquatorialVSOP87(EARTH, utcToTT(jd));
+  const latRad = latitude * Math.PI / 180;
+  const hourAngle = (getApparentSiderealTime(jd) + longitude) * Math.PI / 180 - ra;
 
-    if (lowDiff * diff < 0) {
-      high = mid;
-    } else {
-      low = mid;
-    }
-  }
+  const sinAltitude = Math.sin(latRad) * Math.sin(dec) +
+                      Math.cos(latRad) * Math.cos(dec) * Math.cos(hourAngle);
+  return Math.asin(sinAltitude) * 180 / Math.PI > getSunriseAltitude(options);
+}
 
-  return (low + high) / 2;
+/**
+ * Calculate the Ascendant (Lagna) for a given time and location.
+ * The ecliptic point rising on the eastern horizon (Meeus ch. 14).
+ */
+export function calculateAscendant(jd: number, latitude: number, longitude: number): number {
+  // True obliquity of ecliptic (mean obliquity plus nutation)
+  const jde = utcToTT(jd);
+  const epsilonRad = nutation.meanObliquity(jde) + nutation.nutation(jde)[1];
+
+  // Local apparent Sidereal Time
+  let LST = getApparentSiderealTime(jd) + longitude;
+  LST = LST % 360;
+  if (LST < 0) LST += 360;
+
+  const latRad = latitude * Math.PI / 180;
+  const LSTrad = LST * Math.PI / 180;
+
+  // Calculate Ascendant; atan2 keeps the eastern (rising) solution in every quadrant
+  let asc = Math.atan2(
+    Math.cos(LSTrad),
+    -(Math.sin(LSTrad) * Math.cos(epsilonRad) + Math.tan(latRad) * Math.sin(epsilonRad))
+  ) * 180 / Math.PI;
+
+  asc = ((asc % 360) + 360) % 360;
+
+  // Convert to sidereal
+  return tropicalToSidereal(asc, jd);
 }
 
 /**
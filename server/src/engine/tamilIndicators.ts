@@ -0,0 +1,144 @@
+/**
+ * Tamil Daily Indicators Calculator
+ *
+ * Computes the markers of Tamil daily sheet calendars at sunrise from the
+ * rules in config/tamilIndicators.ts: Soolam and Parigaram, Netram and
+ * Jeevan, Karinal, Agni Nakshatram and Amirtha/Siddha/Marana yogam.
+ * The yogam follows the nakshatra, so it is listed with change times
+ * from sunrise to the next sunrise.
+ */
+
+import { TamilIndicators, TamilYogamConfig, TamilYogamPeriod } from '../types/panchangam.js';
+import { getSunLongitude, getMoonLongitude } from './swisseph.js';
+import { findNextAngleCrossing, findPreviousAngleCrossing, findSegmentCrossings } from './events.js';
+import { getNakshatraIndex, NAKSHATRA_SPAN } from '../config/nakshatra.js';
+import {
+  SOOLAM,
+  NETRAM_BY_COUNT,
+  JEEVAN_BY_COUNT,
+  KARINAL_DAYS,
+  AGNI_NAKSHATRAM_START_DEGREE,
+  AGNI_NAKSHATRAM_END_DEGREE,
+  getTamilYogam,
+} from '../config/tamilIndicators.js';
+import {
+  julianDayToDateTime,
+  formatTime,
+  formatTimeShort,
+  getDayOfWeek,
+  createTimestamp,
+} from '../utils/datetime.js';
+
+// Agni Nakshatram lasts about 24 days
+const AGNI_NAKSHATRAM_SEARCH_DAYS = 30;
+
+// The Sun moves about 1° a day
+const SUN_SEARCH_STEP = 1;
+
+/**
+ * Find Agni Nakshatram if the Sun is within it at a given time.
+ */
+function calculateAgniNakshatram(julianDay: number, timezone: string): TamilIndicators['agniNakshatram'] {
+  const sunLongitude = getSunLongitude(julianDay);
+  if (sunLongitude < AGNI_NAKSHATRAM_START_DEGREE || sunLongitude >= AGNI_NAKSHATRAM_END_DEGREE) {
+    return null;
+  }
+
+  const options = { step: SUN_SEARCH_STEP };
+  const startJD = findPreviousAngleCrossing(
+    julianDay, AGNI_NAKSHATRAM_START_DEGREE, getSunLongitude, AGNI_NAKSHATRAM_SEARCH_DAYS, options
+  );
+  const endJD = findNextAngleCrossing(
+    julianDay, AGNI_NAKSHATRAM_END_DEGREE, getSunLongitude, AGNI_NAKSHATRAM_SEARCH_DAYS, options
+  );
+
+  const reference = julianDayToDateTime(julianDay, timezone);
+  return {
+    startAt: createTimestamp(julianDayToDateTime(startJD, timezone), reference, formatTime),
+    endAt: createTimestamp(julianDayToDateTime(endJD, timezone), reference, formatTime),
+  };
+}
+
+/**
+ * Calculate the Amirtha, Siddha or Marana yogam from sunrise to the next
+ * sunrise. A nakshatra change that keeps the same yogam is not a change.
+ */
+function calculateTamilYogams(
+  sunriseJD: number,
+  nextSunriseJD: number,
+  dayOfWeek: number,
+  timezone: string
+): TamilYogamPeriod[] {
+  const changes = findSegmentCrossings(sunriseJD, nextSunriseJD, NAKSHATRA_SPAN, getMoonLongitude);
+  const boundaries = [sunriseJD, ...changes.map(c => c.jd), nextSunriseJD];
+
+  const spans: { yogam: TamilYogamConfig; startJD: number; endJD: number }[] = [];
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    const startJD = boundaries[i]!;
+    const endJD = boundaries[i + 1]!;
+    const nakshatra = getNakshatraIndex(getMoonLongitude((startJD + endJD) / 2));
+    const yogam = getTamilYogam(dayOfWeek, nakshatra);
+
+    const last = spans[spans.length - 1];
+    if (last && last.yogam.id === yogam.id) {
+      last.endJD = endJD;
+    } else {
+      spans.push({ yogam, startJD, endJD });
+    }
+  }
+
+  const sunriseTime = julianDayToDateTime(sunriseJD, timezone);
+  return spans.map(({ yogam, startJD, endJD }): TamilYogamPeriod => {
+    const startTime = julianDayToDateTime(startJD, timezone);
+    const endTime = julianDayToDateTime(endJD, timezone);
+    return {
+      id: yogam.id,
+      name: yogam.name,
+      nature: yogam.nature,
+      start: formatTimeShort(startTime),
+      end: formatTimeShort(endTime),
+      startAt: createTimestamp(startTime, sunriseTime, formatTimeShort),
+      endAt: createTimestamp(endTime, sunriseTime, formatTimeShort),
+    };
+  });
+}
+
+/**
+ * Calculate the Tamil daily indicators at sunrise.
+ *
+ * @param sunriseJD - Julian Day of sunrise
+ * @param nextSunriseJD - Julian Day of the next sunrise
+ * @param dateStr - Date string (YYYY-MM-DD)
+ * @param timezone - Timezone string
+ * @param tamilMonthIndex - Tamil month (1-12, Chithirai = 1)
+ * @param tamilDay - Day of the Tamil month
+ * @returns Soolam, Netram, Jeevan, Karinal, Agni Nakshatram and yogam
+ */
+export function calculateTamilIndicators(
+  sunriseJD: number,
+  nextSunriseJD: number,
+  dateStr: string,
+  timezone: string,
+  tamilMonthIndex: number,
+  tamilDay: number
+): TamilIndicators {
+  const dayOfWeek = getDayOfWeek(dateStr, timezone);
+  const soolam = SOOLAM[dayOfWeek]!;
+
+  // The day's nakshatra counted from the Sun's (1-27)
+  const moonNakshatra = getNakshatraIndex(getMoonLongitude(sunriseJD));
+  const sunNakshatra = getNakshatraIndex(getSunLongitude(sunriseJD));
+  const count = ((moonNakshatra - sunNakshatra + 27) % 27) + 1;
+
+  return {
+    soolam: {
+      direction: soolam.direction,
+      parigaram: soolam.parigaram,
+    },
+    netram: NETRAM_BY_COUNT[count - 1] ?? 0,
+    jeevan: JEEVAN_BY_COUNT[count - 1] ?? 0,
+    isKarinal: KARINAL_DAYS[tamilMonthIndex]?.includes(tamilDay) ?? false,
+    agniNakshatram: calculateAgniNakshatram(sunriseJD, timezone),
+    yogam: calculateTamilYogams(sunriseJD, nextSunriseJD, dayOfWeek, timezone),
+  };
+}
@@ -0,0 +1,128 @@
+/**
+ * Daily Timeline Calculator
+ *
+ * Lists every tithi, nakshatra, yoga and karana active during the
+ * panchangam day, from today's sunrise to the next sunrise.
+ *
+ * - Kshaya: the element begins and ends between the two sunrises,
+ *   so it never prevails at a sunrise and is "skipped" in the calendar.
+ * - Adhika: the element prevails at both sunrises, so it is the
+ *   sunrise element of two consecutive days.
+ */
+
+import { BilingualText, DailyTimeline, TimelineEntry } from '../types/panchangam.js';
+import { getMoonLongitude } from './swisseph.js';
+import { findSegmentSpans } from './events.js';
+import { getElongation } from './tithi.js';
+import { getCombinedAtJD } from './yoga.js';
+import { TITHI_SPAN, getTithiConfig } from '../config/tithi.js';
+import { NAKSHATRA_SPAN, getNakshatraConfig } from '../config/nakshatra.js';
+import { YOGA_SPAN, getYogaConfig } from '../config/yoga.js';
+import { KARANA_SPAN, getKaranaByNumber } from '../config/karana.js';
+import { julianDayToDateTime, formatTime, createTimestamp } from '../utils/datetime.js';
+
+/**
+ * A limb of the panchangam: an angle divided into equal segments.
+ */
+interface Limb {
+  span: number;
+  getAngle: (jd: number) => number;
+  getElement: (segment: number) => { index: number; name: BilingualText };
+  reckonedAtSunrise: boolean;   // Whether kshaya/adhika apply
+}
+
+// Longer than any single element (the slowest, a nakshatra, lasts under 1.2 days)
+const LOOKAROUND_DAYS = 1.5;
+
+const UNKNOWN: BilingualText = { en: 'Unknown', ta: 'அறியாத' };
+
+const TITHI_LIMB: Limb = {
+  span: TITHI_SPAN,
+  getAngle: getElongation,
+  getElement: (segment) => ({ index: segment, name: getTithiConfig(segment)?.name ?? UNKNOWN }),
+  reckonedAtSunrise: true,
+};
+
+const NAKSHATRA_LIMB: Limb = {
+  span: NAKSHATRA_SPAN,
+  getAngle: getMoonLongitude,
+  getElement: (segment) => ({ index: segment, name: getNakshatraConfig(segment)?.name ?? UNKNOWN }),
+  reckonedAtSunrise: true,
+};
+
+const YOGA_LIMB: Limb = {
+  span: YOGA_SPAN,
+  getAngle: getCombinedAtJD,
+  getElement: (segment) => ({ index: segment, name: getYogaConfig(segment)?.name ?? UNKNOWN }),
+  reckonedAtSunrise: true,
+};
+
+const KARANA_LIMB: Limb = {
+  span: KARANA_SPAN,
+  getAngle: getElongation,
+  getElement: (segment) => {
+    const karana = getKaranaByNumber(segment);
+    return { index: karana.index, name: karana.name };
+  },
+  // Karanas are half-tithis, two a day; they are never kshaya or adhika
+  reckonedAtSunrise: false,
+};
+
+/**
+ * Calculate the ordered elements of one limb between two sunrises.
+ */
+function calculateLimbTimeline(
+  limb: Limb,
+  sunriseJD: number,
+  nextSunriseJD: number,
+  timezone: string
+): TimelineEntry[] {
+  // The element at sunrise, every one that begins during the day, each in full
+  const spans = findSegmentSpans(sunriseJD, nextSunriseJD, limb.span, limb.getAngle, LOOKAROUND_DAYS);
+  const first = spans[0];
+  const last = spans[spans.length - 1];
+  if (!first || !last || first.startJD > sunriseJD || last.endJD < nextSunriseJD) {
+    throw new Error('Timeline boundaries not found around sunrise');
+  }
+
+  const sunriseTime = julianDayToDateTime(sunriseJD, timezone);
+  const entries: TimelineEntry[] = [];
+  for (const { index, startJD, endJD } of spans) {
+    const element = limb.getElement(index);
+    const startTime = julianDayToDateTime(startJD, timezone);
+    const endTime = julianDayToDateTime(endJD, timezone);
+    entries.push({
+      index: element.index,
+      name: element.name,
+      start: formatTime(startTime),
+      end: formatTime(endTime),
+      startAt: createTimestamp(startTime, sunriseTime),
+      endAt: createTimestamp(endTime, sunriseTime),
+      isKshaya: limb.reckonedAtSunrise && startJD > sunriseJD && endJD < nextSunriseJD,
+      isAdhika: limb.reckonedAtSunrise && startJD <= sunriseJD && endJD >= nextSunriseJD,
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Calculate the daily timeline of all four limbs.
+ *
+ * @param sunriseJD - Julian Day of today's sunrise
+ * @param nextSunriseJD - Julian Day of the next sunrise
+ * @param timezone - Timezone for formatting times
+ * @returns Tithis, nakshatras, yogas and karanas in time order
+ */
+export function calculateDailyTimeline(
+  sunriseJD: number,
+  nextSunriseJD: number,
+  timezone: string
+): DailyTimeline {
+  return {
+    tithis: calculateLimbTimeline(TITHI_LIMB, sunriseJD, nextSunriseJD, timezone),
+    nakshatras: calculateLimbTimeline(NAKSHATRA_LIMB, sunriseJD, nextSunriseJD, timezone),
+    yogas: calculateLimbTimeline(YOGA_LIMB, sunriseJD, nextSunriseJD, timezone),
+    karanas: calculateLimbTimeline(KARANA_LIMB, sunriseJD, nextSunriseJD, timezone),
+  };
+}
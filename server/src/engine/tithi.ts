@@ -7,9 +7,10 @@
  */
 
 import { TithiInfo, BilingualText } from '../types/panchangam.js';
-import { getSunMoonPositions, findAngleCrossing, getMoonLongitude, getSunLongitude } from './swisseph.js';
+import { getSunMoonPositions, getMoonLongitude, getSunLongitude } from './swisseph.js';
+import { findNextAngleCrossing } from './events.js';
 import { TITHI_SPAN, getTithiConfig, getPaksha, TITHIS } from '../config/tithi.js';
-import { julianDayToDateTime, formatTime } from '../utils/datetime.js';
+import { julianDayToDateTime, formatTime, createTimestamp } from '../utils/datetime.js';
 
 /**
  * Calculate the Moon-Sun elongation (angular separation).
@@ -39,16 +40,16 @@ export function getTithiIndexFromElongation(elongation: number): number {
 
 /**
  * Calculate the elongation for a given Julian Day.
- * Helper function for binary search.
+ * Helper function for the event solver.
  */
-function getElongation(jd: number): number {
+export function getElongation(jd: number): number {
   const { sun, moon } = getSunMoonPositions(jd);
   return getMoonSunElongation(sun, moon);
 }
 
 /**
  * Find the end time of the current tithi.
- * Uses binary search to find when the elongation crosses the next 12° boundary.
+ * Uses the event solver to find when the elongation crosses the next 12° boundary.
  *
  * @param currentJD - Current Julian Day
  * @param currentTithiIndex - Current tithi index (1-30)
@@ -65,15 +66,7 @@ export function findTithiEndTime(
 
   // Moon moves about 13° per day, so tithi lasts roughly 1 day
   // Search within 2 days to be safe
-  const searchEndJD = currentJD + 2;
-
-  return findAngleCrossing(
-    currentJD,
-    searchEndJD,
-    nextTithiElongation,
-    getElongation,
-    0.001
-  );
+  return findNextAngleCrossing(currentJD, nextTithiElongation, getElongation, 2);
 }
 
 /**
@@ -113,6 +106,7 @@ export function calculateTithi(julianDay: number, timezone: string): TithiInfo {
     name: tithiConfig.name,
     paksha: paksha,
     endTime: formatTime(endDateTime),
+    endAt: createTimestamp(endDateTime, julianDayToDateTime(julianDay, timezone)),
     nextTithi: nextTithiConfig?.name ?? { en: 'Unknown', ta: 'அறியாத' },
   };
 }
@@ -7,9 +7,10 @@
  */
 
 import { YogaInfo } from '../types/panchangam.js';
-import { getSunMoonPositions, findAngleCrossing, getMoonLongitude, getSunLongitude } from './swisseph.js';
+import { getSunMoonPositions, getMoonLongitude, getSunLongitude } from './swisseph.js';
+import { findNextAngleCrossing } from './events.js';
 import { YOGA_SPAN, getYogaIndex, getYogaConfig, YOGAS } from '../config/yoga.js';
-import { julianDayToDateTime, formatTime } from '../utils/datetime.js';
+import { julianDayToDateTime, formatTime, createTimestamp } from '../utils/datetime.js';
 
 /**
  * Calculate the combined Sun-Moon longitude.
@@ -22,16 +23,16 @@ export function getCombinedLongitude(sunLongitude: number, moonLongitude: number
 
 /**
  * Get combined longitude for a given Julian Day.
- * Helper function for binary search.
+ * Helper function for the event solver.
  */
-function getCombinedAtJD(jd: number): number {
+export function getCombinedAtJD(jd: number): number {
   const { sun, moon } = getSunMoonPositions(jd);
   return getCombinedLongitude(sun, moon);
 }
 
 /**
  * Find the end time of the current yoga.
- * Uses binary search to find when combined longitude crosses the next boundary.
+ * Uses the event solver to find when combined longitude crosses the next boundary.
  *
  * @param currentJD - Current Julian Day
  * @param currentYogaIndex - Current yoga index (1-27)
@@ -45,15 +46,7 @@ export function findYogaEndTime(
   const nextYogaStart = (currentYogaIndex * YOGA_SPAN) % 360;
 
   // Combined motion is faster than individual, but still roughly 1 day per yoga
-  const searchEndJD = currentJD + 2;
-
-  return findAngleCrossing(
-    currentJD,
-    searchEndJD,
-    nextYogaStart,
-    getCombinedAtJD,
-    0.001
-  );
+  return findNextAngleCrossing(currentJD, nextYogaStart, getCombinedAtJD, 2);
 }
 
 /**
@@ -84,7 +77,9 @@ export function calculateYoga(julianDay: number, timezone: string): YogaInfo {
   return {
     index: yogaIndex,
     name: yogaConfig.name,
+    nature: yogaConfig.nature,
     endTime: formatTime(endDateTime),
+    endAt: createTimestamp(endDateTime, julianDayToDateTime(julianDay, timezone)),
   };
 }
 
@@ -6,11 +6,17 @@
 
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
+import { DateTime } from 'luxon';
 import { panchangamController } from '../controllers/panchangamController.js';
 import { PanchangamResponse } from '../types/panchangam.js';
+import { getNakshatraByName } from '../config/nakshatra.js';
+import { AYANAMSA_SYSTEMS } from '../config/ayanamsa.js';
 
 export const panchangamRouter = Router();
 
+// Ayanamsa systems from the ayanamsa config, shared by every request schema
+const ayanamsaSchema = z.enum(AYANAMSA_SYSTEMS);
+
 // Request validation schema using Zod
 const panchangamRequestSchema = z.object({
   date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format'),
@@ -18,6 +24,16 @@ const panchangamRequestSchema = z.object({
   longitude: z.number().min(-180).max(180),
   timezone: z.string().min(1, 'Timezone is required'),
   birthNakshatra: z.string().optional(),
+  nodeType: z.enum(['mean', 'true']).optional(),
+  ayanamsa: ayanamsaSchema.optional(),
+  ayanamsaValue: z.number().min(0).max(360).optional(),
+  sunriseDefinition: z.enum(['upper-limb', 'centre', 'hindu']).optional(),
+  elevation: z.number().min(-500).max(9000).optional(),
+  highLatitudePolicy: z.enum(['nearest-latitude', 'fixed-time', 'midnight-sun']).optional(),
+  lunarMonthSystem: z.enum(['amanta', 'purnimanta']).optional(),
+  includeMuhurtas: z.boolean().optional(),
+  includeChoghadiya: z.boolean().optional(),
+  horaSystem: z.enum(['equal', 'proportional']).optional(),
 });
 
 // Date range request schema for CSV export
@@ -28,6 +44,47 @@ const dateRangeRequestSchema = z.object({
   longitude: z.number().min(-180).max(180),
   timezone: z.string().min(1, 'Timezone is required'),
   birthNakshatra: z.string().optional(),
+  nodeType: z.enum(['mean', 'true']).optional(),
+  ayanamsa: ayanamsaSchema.optional(),
+  ayanamsaValue: z.number().min(0).max(360).optional(),
+  sunriseDefinition: z.enum(['upper-limb', 'centre', 'hindu']).optional(),
+  elevation: z.number().min(-500).max(9000).optional(),
+  highLatitudePolicy: z.enum(['nearest-latitude', 'fixed-time', 'midnight-sun']).optional(),
+  lunarMonthSystem: z.enum(['amanta', 'purnimanta']).optional(),
+  includeMuhurtas: z.boolean().optional(),
+  includeChoghadiya: z.boolean().optional(),
+  horaSystem: z.enum(['equal', 'proportional']).optional(),
+});
+
+// Tamil year query schema; location defaults to Chennai
+const tamilYearQuerySchema = z.object({
+  latitude: z.coerce.number().min(-90).max(90).default(13.0827),
+  longitude: z.coerce.number().min(-180).max(180).default(80.2707),
+  timezone: z.string().min(1).default('Asia/Kolkata'),
+  ayanamsa: ayanamsaSchema.optional(),
+  ayanamsaValue: z.coerce.number().min(0).max(360).optional(),
+  sunriseDefinition: z.enum(['upper-limb', 'centre', 'hindu']).optional(),
+  elevation: z.coerce.number().min(-500).max(9000).optional(),
+  highLatitudePolicy: z.enum(['nearest-latitude', 'fixed-time', 'midnight-sun']).optional(),
+});
+
+/**
+ * A YYYY-MM-DD date that exists in the calendar (not 2025-02-30).
+ */
+function calendarDateSchema(formatMessage: string) {
+  return z.string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, formatMessage)
+    .refine(date => DateTime.fromISO(date).isValid, 'Date must be a valid calendar date');
+}
+
+// Chandrashtama window search query schema
+const chandrashtamaQuerySchema = z.object({
+  birthNakshatra: z.string().refine(name => getNakshatraByName(name) !== undefined, 'Unknown nakshatra'),
+  from: calendarDateSchema('From date must be in YYYY-MM-DD format'),
+  to: calendarDateSchema('To date must be in YYYY-MM-DD format'),
+  timezone: z.string().min(1).default('Asia/Kolkata'),
+  ayanamsa: ayanamsaSchema.optional(),
+  ayanamsaValue: z.coerce.number().min(0).max(360).optional(),
 });
 
 /**
@@ -106,7 +163,9 @@ panchangamRouter.post('/panchangam/range', async (req: Request, res: Response) =
       return;
     }
 
-    const { startDate, endDate, latitude, longitude, timezone, birthNakshatra } = validationResult.data;
+    const { startDate, endDate, latitude, longitude, timezone, birthNakshatra, nodeType, ayanamsa, ayanamsaValue,
+      sunriseDefinition, elevation, highLatitudePolicy, lunarMonthSystem,
+      includeMuhurtas, includeChoghadiya, horaSystem } = validationResult.data;
 
     // Validate date range (max 365 days)
     const start = new Date(startDate);
@@ -134,6 +193,16 @@ panchangamRouter.post('/panchangam/range', async (req: Request, res: Response) =
         longitude,
         timezone,
         birthNakshatra,
+        nodeType,
+        ayanamsa,
+        ayanamsaValue,
+        sunriseDefinition,
+        elevation,
+        highLatitudePolicy,
+        lunarMonthSystem,
+        includeMuhurtas,
+        includeChoghadiya,
+        horaSystem,
       });
       results.push(result);
       currentDate.setDate(currentDate.getDate() + 1);
@@ -170,7 +239,8 @@ panchangamRouter.post('/panchangam/csv', async (req: Request, res: Response) =>
       return;
     }
 
-    const { startDate, endDate, latitude, longitude, timezone, birthNakshatra } = validationResult.data;
+    const { startDate, endDate, latitude, longitude, timezone, birthNakshatra, nodeType, ayanamsa, ayanamsaValue,
+      sunriseDefinition, elevation, highLatitudePolicy, lunarMonthSystem } = validationResult.data;
 
     // Validate date range
     const start = new Date(startDate);
@@ -225,6 +295,13 @@ panchangamRouter.post('/panchangam/csv', async (req: Request, res: Response) =>
         longitude,
         timezone,
         birthNakshatra,
+        nodeType,
+        ayanamsa,
+        ayanamsaValue,
+        sunriseDefinition,
+        elevation,
+        highLatitudePolicy,
+        lunarMonthSystem,
       });
 
       // Build CSV row
@@ -274,3 +351,91 @@ panchangamRouter.post('/panchangam/csv', async (req: Request, res: Response) =>
     });
   }
 });
+
+/**
+ * GET /api/tamil-year/:year
+ *
+ * Get the Tamil months of the Tamil year beginning in the given Gregorian year,
+ * with exact Sankranti times, first days and lengths.
+ */
+panchangamRouter.get('/tamil-year/:year', async (req: Request, res: Response) => {
+  try {
+    const year = Number(req.params['year']);
+    if (!Number.isInteger(year) || year < 1 || year > 9999) {
+      res.status(400).json({ error: 'Year must be an integer between 1 and 9999' });
+      return;
+    }
+
+    const validationResult = tamilYearQuerySchema.safeParse(req.query);
+
+    if (!validationResult.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors.map(e => ({
+          field: e.path.join('.'),
+          message: e.message,
+        })),
+      });
+      return;
+    }
+
+    const result = await panchangamController.calculateTamilYear({
+      year,
+      ...validationResult.data,
+    });
+    res.json(result);
+
+  } catch (error) {
+    console.error('Tamil year calculation error:', error);
+    res.status(500).json({
+      error: 'Calculation failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * GET /api/chandrashtamam
+ *
+ * List every Chandrashtama window for a birth nakshatra between two dates,
+ * with exact start and end timestamps.
+ */
+panchangamRouter.get('/chandrashtamam', async (req: Request, res: Response) => {
+  try {
+    const validationResult = chandrashtamaQuerySchema.safeParse(req.query);
+
+    if (!validationResult.success) {
+      res.status(400).json({
+        error: 'Validation failed',
+        details: validationResult.error.errors.map(e => ({
+          field: e.path.join('.'),
+          message: e.message,
+        })),
+      });
+      return;
+    }
+
+    // Validate date range (max 365 days)
+    const { from, to } = validationResult.data;
+    const daysDiff = Math.ceil((new Date(to).getTime() - new Date(from).getTime()) / (1000 * 60 * 60 * 24));
+
+    if (daysDiff < 0) {
+      res.status(400).json({ error: 'To date must be after from date' });
+      return;
+    }
+    if (daysDiff > 365) {
+      res.status(400).json({ error: 'Date range cannot exceed 365 days' });
+      return;
+    }
+
+    const result = await panchangamController.searchChandrashtama(validationResult.data);
+    res.json(result);
+
+  } catch (error) {
+    console.error('Chandrashtama search error:', error);
+    res.status(500).json({
+      error: 'Calculation failed',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { calculatePanchangam } from './panchangamService.js';
+import { getSiderealMode } from '../engine/swisseph.js';
+
+const CHENNAI = { latitude: 13.0827, longitude: 80.2707, timezone: 'Asia/Kolkata' };
+
+describe('calculatePanchangam ayanamsa', () => {
+  it('uses the requested ayanamsa and restores the default afterwards', async () => {
+    const lahiri = await calculatePanchangam({ date: '2025-01-14', ...CHENNAI });
+    const raman = await calculatePanchangam({ date: '2025-01-14', ...CHENNAI, ayanamsa: 'raman' });
+
+    expect(raman.ayanamsa.system).toBe('raman');
+    expect(raman.ayanamsa.degree).not.toBe(lahiri.ayanamsa.degree);
+    expect(getSiderealMode()).toBe('lahiri');
+  });
+});
+
+describe('calculatePanchangam across the accepted years', () => {
+  it.each(['0001-01-01', '6000-05-01', '9999-12-31'])('calculates %s', async (date) => {
+    const result = await calculatePanchangam({ date, ...CHENNAI });
+    expect(result.date).toBe(date);
+  });
+});
@@ -5,25 +5,84 @@
  * This is the main service that coordinates all engine modules.
  */
 
-import { PanchangamRequest, PanchangamResponse, TamilCalendar } from '../types/panchangam.js';
+import {
+  PanchangamRequest,
+  PanchangamResponse,
+  TamilCalendar,
+  DayBoundaryOptions,
+  TamilYearRequest,
+  TamilYearResponse,
+  ChandrashtamaSearchRequest,
+  ChandrashtamaSearchResponse,
+  AyanamsaSystem,
+} from '../types/panchangam.js';
 import {
   initSwissEph,
-  calculateSunrise,
-  calculateSunset,
-  getSunLongitude
+  setSiderealMode,
+  getAyanamsa,
+  DEFAULT_SUNRISE_OPTIONS
 } from '../engine/swisseph.js';
+import { calculateDayBoundaries, DEFAULT_HIGH_LATITUDE_POLICY } from '../engine/dayBoundary.js';
 import { calculateTithi } from '../engine/tithi.js';
 import { calculateNakshatra } from '../engine/nakshatra.js';
 import { calculateYoga } from '../engine/yoga.js';
 import { calculateKarana } from '../engine/karana.js';
+import { calculateDailyTimeline } from '../engine/timeline.js';
 import { calculateMoonRasi } from '../engine/moonRasi.js';
-import { calculateDayLagnams } from '../engine/lagnam.js';
+import { calculateGrahaPositions } from '../engine/navagraha.js';
+import { calculateDayLagnams, calculateLagnaIruppu } from '../engine/lagnam.js';
 import { calculateInauspiciousPeriods, calculateAuspiciousPeriods } from '../engine/muhurta.js';
-import { calculateChandrashtama } from '../engine/chandrashtama.js';
+import { calculateMuhurtaDivision, calculateChoghadiya } from '../engine/dayDivisions.js';
+import { calculateHora } from '../engine/hora.js';
+import {
+  calculateChandrashtama,
+  calculateDailyChandrashtama,
+  findChandrashtamaWindows,
+  getBirthMoonRasi,
+  getChandrashtamaRasi,
+} from '../engine/chandrashtama.js';
+import { calculateTarabalam, calculateChandrabalam } from '../engine/balam.js';
 import { getMatchingFestivals } from '../engine/festivals.js';
 import { calculateTamilDate, getTamilMonthName } from '../engine/tamilDate.js';
+import { calculateTamilMonths } from '../engine/sankranti.js';
+import { calculateEraYears } from '../engine/eras.js';
+import { calculateLunarMonth } from '../engine/lunarMonth.js';
+import { calculateSeason } from '../engine/season.js';
+import { calculateTamilIndicators } from '../engine/tamilIndicators.js';
 import { getTamilYear } from '../config/tamilCalendar.js';
-import { dateToJulianDay, julianDayToDateTime, formatTime } from '../utils/datetime.js';
+import { getNakshatraByName } from '../config/nakshatra.js';
+import { getRasiConfig } from '../config/rasi.js';
+import { DEFAULT_LUNAR_MONTH_SYSTEM } from '../config/lunarMonth.js';
+import { DEFAULT_HORA_SYSTEM } from '../config/hora.js';
+import { DEFAULT_AYANAMSA, getAyanamsaConfig } from '../config/ayanamsa.js';
+import {
+  julianDayToDateTime,
+  formatTime,
+  createDateTime,
+  createTimestamp,
+  dateToJulianDay,
+} from '../utils/datetime.js';
+
+/**
+ * Run a calculation under a request's ayanamsa, then restore the default.
+ *
+ * The sidereal mode is process-global (like swe_set_sid_mode in Swiss
+ * Ephemeris), and this is the only place it is set. That is safe because
+ * every calculation is synchronous: nothing awaits between setting the mode
+ * and reading the last sidereal longitude, so requests cannot interleave.
+ */
+function withSiderealMode<T>(
+  ayanamsa: AyanamsaSystem = DEFAULT_AYANAMSA,
+  ayanamsaValue: number | undefined,
+  calculate: () => T
+): T {
+  setSiderealMode(ayanamsa, ayanamsaValue);
+  try {
+    return calculate();
+  } finally {
+    setSiderealMode(DEFAULT_AYANAMSA);
+  }
+}
 
 /**
  * Calculate complete Panchangam for a given date and location.
@@ -35,30 +94,90 @@ export async function calculatePanchangam(request: PanchangamRequest): Promise<P
   // Initialize Swiss Ephemeris
   initSwissEph();
 
-  const { date, latitude, longitude, timezone, birthNakshatra } = request;
+  return withSiderealMode(request.ayanamsa, request.ayanamsaValue, () => buildPanchangam(request));
+}
 
-  // Get Julian Day for the date (at local noon)
-  const startOfDayJD = dateToJulianDay(date, timezone);
+/**
+ * Calculate the Panchangam under the sidereal mode already selected.
+ */
+function buildPanchangam(request: PanchangamRequest): PanchangamResponse {
+
+  const {
+    date,
+    latitude,
+    longitude,
+    timezone,
+    birthNakshatra,
+    nodeType = 'mean',
+    ayanamsa = DEFAULT_AYANAMSA,
+    sunriseDefinition = DEFAULT_SUNRISE_OPTIONS.definition,
+    elevation = DEFAULT_SUNRISE_OPTIONS.elevation,
+    highLatitudePolicy = DEFAULT_HIGH_LATITUDE_POLICY,
+    lunarMonthSystem = DEFAULT_LUNAR_MONTH_SYSTEM,
+    includeMuhurtas = false,
+    includeChoghadiya = false,
+    horaSystem = DEFAULT_HORA_SYSTEM,
+  } = request;
+
+  // Calculate sunrise and sunset; every sunrise-based element below depends on these.
+  // At high latitudes these may be conventional, as reported in dayBoundary.
+  const dayBoundaryOptions: DayBoundaryOptions = {
+    definition: sunriseDefinition,
+    elevation,
+    highLatitudePolicy,
+  };
+  const { sunriseJD, sunsetJD, info: dayBoundary } =
+    calculateDayBoundaries(date, latitude, longitude, timezone, dayBoundaryOptions);
 
-  // Calculate sunrise and sunset
-  const sunriseJD = calculateSunrise(startOfDayJD, latitude, longitude);
-  const sunsetJD = calculateSunset(startOfDayJD, latitude, longitude);
+  // The panchangam day ends at the next sunrise
+  const nextDate = createDateTime(date, timezone).plus({ days: 1 }).toISODate() ?? date;
+  const { sunriseJD: nextSunriseJD, sunsetJD: nextSunsetJD } =
+    calculateDayBoundaries(nextDate, latitude, longitude, timezone, dayBoundaryOptions);
 
-  // Get Sun position for Tamil calendar
-  const sunLongitude = getSunLongitude(sunriseJD);
+  // The night before began at the previous sunset (for Brahma Muhurta)
+  const previousDate = createDateTime(date, timezone).minus({ days: 1 }).toISODate() ?? date;
+  const { sunriseJD: previousSunriseJD, sunsetJD: previousSunsetJD } =
+    calculateDayBoundaries(previousDate, latitude, longitude, timezone, dayBoundaryOptions);
+
+  // The next day ends at the sunrise after (for festival tie-breaks)
+  const followingDate = createDateTime(date, timezone).plus({ days: 2 }).toISODate() ?? date;
+  const { sunriseJD: followingSunriseJD } =
+    calculateDayBoundaries(followingDate, latitude, longitude, timezone, dayBoundaryOptions);
+
+  const ayanamsaInfo = {
+    system: ayanamsa,
+    name: getAyanamsaConfig(ayanamsa)?.name ?? { en: ayanamsa, ta: ayanamsa },
+    degree: Math.round(getAyanamsa(sunriseJD) * 1000000) / 1000000,
+  };
 
   // Calculate Tamil calendar
-  const tamilDateInfo = calculateTamilDate(date, { latitude, longitude, timezone });
+  const tamilDateInfo = calculateTamilDate(date, { latitude, longitude, timezone }, dayBoundaryOptions);
   const tamilMonthName = getTamilMonthName(tamilDateInfo.monthIndex);
-  const gregorianYear = parseInt(date.split('-')[0] ?? '2025', 10);
-  const tamilYear = getTamilYear(gregorianYear);
+  const tamilYear = getTamilYear(tamilDateInfo.year);
+  const eras = calculateEraYears(
+    date, tamilDateInfo.year, tamilDateInfo.monthIndex,
+    latitude, longitude, timezone, dayBoundaryOptions
+  );
 
   const tamilCalendar: TamilCalendar = {
     month: tamilMonthName,
     day: tamilDateInfo.day,
+    totalDays: tamilDateInfo.totalDaysInMonth,
     year: tamilYear,
+    eras,
   };
 
+  // Lunar month at sunrise
+  const lunarMonth = calculateLunarMonth(sunriseJD, timezone, lunarMonthSystem);
+
+  // Ritu, ayana and Surya nakshatra at sunrise
+  const season = calculateSeason(sunriseJD);
+
+  // Soolam, Netram, Jeevan, Karinal, Agni Nakshatram and yogam at sunrise
+  const tamilIndicators = calculateTamilIndicators(
+    sunriseJD, nextSunriseJD, date, timezone, tamilDateInfo.monthIndex + 1, tamilDateInfo.day
+  );
+
   // Calculate core Panchangam elements at sunrise
   const tithi = calculateTithi(sunriseJD, timezone);
   const nakshatra = calculateNakshatra(sunriseJD, timezone);
@@ -66,24 +185,70 @@ export async function calculatePanchangam(request: PanchangamRequest): Promise<P
   const karana = calculateKarana(sunriseJD, timezone);
   const moonRasi = calculateMoonRasi(sunriseJD);
 
+  // Every element active between sunrise and the next sunrise
+  const timeline = calculateDailyTimeline(sunriseJD, nextSunriseJD, timezone);
+
+  // Calculate planetary positions (Graha Nilai) at sunrise
+  const grahaNilai = calculateGrahaPositions(sunriseJD, nodeType);
+
   // Calculate Lagnam periods for the day
-  const lagnam = calculateDayLagnams(sunriseJD, sunsetJD, latitude, longitude, timezone);
+  const lagnam = calculateDayLagnams(sunriseJD, nextSunriseJD, latitude, longitude, timezone);
+  const lagnaIruppu = calculateLagnaIruppu(sunriseJD, latitude, longitude);
 
   // Calculate inauspicious and auspicious periods
-  const inauspiciousPeriods = calculateInauspiciousPeriods(sunriseJD, sunsetJD, date, timezone);
-  const auspiciousPeriods = calculateAuspiciousPeriods(sunriseJD, sunsetJD, date, timezone);
+  const inauspiciousPeriods = calculateInauspiciousPeriods(sunriseJD, sunsetJD, nextSunriseJD, date, timezone);
+  const auspiciousPeriods = calculateAuspiciousPeriods(
+    previousSunsetJD, sunriseJD, sunsetJD, nextSunriseJD, date, timezone
+  );
 
-  // Get matching festivals
-  const festivals = getMatchingFestivals(date, tithi, nakshatra, sunLongitude);
+  // Planetary hours from sunrise to the next sunrise
+  const hora = calculateHora(sunriseJD, sunsetJD, nextSunriseJD, date, timezone, horaSystem);
+
+  // Get matching festivals, kept only on days of their Tamil month
+  const previousTamilDate = calculateTamilDate(previousDate, { latitude, longitude, timezone }, dayBoundaryOptions);
+  const nextTamilDate = calculateTamilDate(nextDate, { latitude, longitude, timezone }, dayBoundaryOptions);
+  const festivals = getMatchingFestivals(
+    date,
+    {
+      previous: {
+        sunriseJD: previousSunriseJD,
+        sunsetJD: previousSunsetJD,
+        nextSunriseJD: sunriseJD,
+        tamilMonthIndex: previousTamilDate.monthIndex + 1,
+      },
+      current: { sunriseJD, sunsetJD, nextSunriseJD, tamilMonthIndex: tamilDateInfo.monthIndex + 1 },
+      next: {
+        sunriseJD: nextSunriseJD,
+        sunsetJD: nextSunsetJD,
+        nextSunriseJD: followingSunriseJD,
+        tamilMonthIndex: nextTamilDate.monthIndex + 1,
+      },
+    },
+    tamilDateInfo.day,
+    tamilDateInfo.totalDaysInMonth,
+    timezone
+  );
 
   // Calculate Chandrashtama if birthNakshatra is provided
   const chandrashtama = birthNakshatra
     ? calculateChandrashtama(sunriseJD, birthNakshatra, timezone)
     : null;
 
+  // Birth nakshatras under Chandrashtama, for every birth star
+  const chandrashtamaNakshatras = calculateDailyChandrashtama(sunriseJD, nextSunriseJD, timezone);
+
+  // Tarabalam and Chandrabalam for the birth star, from sunrise to next sunrise
+  const tarabalam = birthNakshatra
+    ? calculateTarabalam(sunriseJD, nextSunriseJD, birthNakshatra, timezone)
+    : null;
+  const chandrabalam = birthNakshatra
+    ? calculateChandrabalam(sunriseJD, nextSunriseJD, birthNakshatra, timezone)
+    : null;
+
   // Format sunrise and sunset times
   const sunriseTime = julianDayToDateTime(sunriseJD, timezone);
   const sunsetTime = julianDayToDateTime(sunsetJD, timezone);
+  const dayStart = createDateTime(date, timezone);
 
   return {
     date,
@@ -91,19 +256,153 @@ export async function calculatePanchangam(request: PanchangamRequest): Promise<P
       latitude,
       longitude,
       timezone,
+      elevation,
     },
+    ayanamsa: ayanamsaInfo,
     tamilCalendar,
+    lunarMonth,
+    season,
+    tamilIndicators,
+    sunriseDefinition,
     sunrise: formatTime(sunriseTime),
     sunset: formatTime(sunsetTime),
+    sunriseAt: createTimestamp(sunriseTime, dayStart),
+    sunsetAt: createTimestamp(sunsetTime, dayStart),
+    dayBoundary,
     tithi,
     nakshatra,
     yoga,
     karana,
+    timeline,
     moonRasi,
     lagnam,
+    lagnaIruppu,
     inauspiciousPeriods,
     auspiciousPeriods,
+    hora,
     festivals,
     chandrashtama,
+    chandrashtamaNakshatras,
+    tarabalam,
+    chandrabalam,
+    grahaNilai,
+    ...(includeMuhurtas
+      ? { muhurtas: calculateMuhurtaDivision(sunriseJD, sunsetJD, nextSunriseJD, timezone) }
+      : {}),
+    ...(includeChoghadiya
+      ? { choghadiya: calculateChoghadiya(sunriseJD, sunsetJD, nextSunriseJD, date, timezone) }
+      : {}),
+  };
+}
+
+/**
+ * Calculate the Tamil month table for a Tamil year.
+ *
+ * @param request - Gregorian year in which the Tamil year begins, location and settings
+ * @returns Months from Chithirai to Panguni with exact Sankranti times and lengths
+ */
+export async function calculateTamilYearCalendar(request: TamilYearRequest): Promise<TamilYearResponse> {
+  initSwissEph();
+
+  return withSiderealMode(request.ayanamsa, request.ayanamsaValue, () => buildTamilYearCalendar(request));
+}
+
+/**
+ * Calculate the Tamil month table under the sidereal mode already selected.
+ */
+function buildTamilYearCalendar(request: TamilYearRequest): TamilYearResponse {
+
+  const {
+    year,
+    latitude,
+    longitude,
+    timezone,
+    ayanamsa = DEFAULT_AYANAMSA,
+    sunriseDefinition = DEFAULT_SUNRISE_OPTIONS.definition,
+    elevation = DEFAULT_SUNRISE_OPTIONS.elevation,
+    highLatitudePolicy = DEFAULT_HIGH_LATITUDE_POLICY,
+  } = request;
+
+  const dayBoundaryOptions: DayBoundaryOptions = {
+    definition: sunriseDefinition,
+    elevation,
+    highLatitudePolicy,
+  };
+  const months = calculateTamilMonths(year, latitude, longitude, timezone, dayBoundaryOptions);
+
+  // Ayanamsa at the start of the year (Chithirai 1)
+  const yearStartJD = dateToJulianDay(months[0]!.startDate, timezone);
+
+  return {
+    year,
+    tamilYear: getTamilYear(year),
+    location: {
+      latitude,
+      longitude,
+      timezone,
+      elevation,
+    },
+    ayanamsa: {
+      system: ayanamsa,
+      name: getAyanamsaConfig(ayanamsa)?.name ?? { en: ayanamsa, ta: ayanamsa },
+      degree: Math.round(getAyanamsa(yearStartJD) * 1000000) / 1000000,
+    },
+    months,
+  };
+}
+
+/**
+ * Find the Chandrashtama windows for a birth nakshatra between two dates.
+ *
+ * @param request - Birth nakshatra, date range, timezone and ayanamsa
+ * @returns Every window overlapping the range, with exact start and end
+ */
+export async function calculateChandrashtamaWindows(
+  request: ChandrashtamaSearchRequest
+): Promise<ChandrashtamaSearchResponse> {
+  initSwissEph();
+
+  return withSiderealMode(request.ayanamsa, request.ayanamsaValue, () => buildChandrashtamaWindows(request));
+}
+
+/**
+ * Find the Chandrashtama windows under the sidereal mode already selected.
+ */
+function buildChandrashtamaWindows(request: ChandrashtamaSearchRequest): ChandrashtamaSearchResponse {
+
+  const {
+    birthNakshatra,
+    from,
+    to,
+    timezone,
+    ayanamsa = DEFAULT_AYANAMSA,
+  } = request;
+
+  const birthNakshatraConfig = getNakshatraByName(birthNakshatra);
+  const birthRasi = getBirthMoonRasi(birthNakshatra);
+  if (!birthNakshatraConfig || !birthRasi) {
+    throw new Error(`Unknown birth nakshatra: ${birthNakshatra}`);
+  }
+
+  // From midnight at the start of `from` to midnight at the end of `to`
+  const startJD = dateToJulianDay(from, timezone);
+  const endJD = dateToJulianDay(createDateTime(to, timezone).plus({ days: 1 }).toISODate() ?? to, timezone);
+  const windows = findChandrashtamaWindows(startJD, endJD, birthNakshatra, timezone) ?? [];
+
+  const unknown = { en: 'Unknown', ta: 'அறியாத' };
+
+  return {
+    from,
+    to,
+    timezone,
+    birthNakshatra: birthNakshatraConfig.name,
+    birthRasi: getRasiConfig(birthRasi)?.name ?? unknown,
+    chandrashtamaRasi: getRasiConfig(getChandrashtamaRasi(birthRasi))?.name ?? unknown,
+    ayanamsa: {
+      system: ayanamsa,
+      name: getAyanamsaConfig(ayanamsa)?.name ?? { en: ayanamsa, ta: ayanamsa },
+      degree: Math.round(getAyanamsa(startJD) * 1000000) / 1000000,
+    },
+    windows,
   };
 }
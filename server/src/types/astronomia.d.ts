@@ -0,0 +1,88 @@
+/**
+ * Type declarations for the 'astronomia' package.
+ *
+ * The package ships without TypeScript types. Only the parts used by the
+ * astronomy engine are declared here. All angles are in radians.
+ */
+
+declare module 'astronomia' {
+  export interface AstroCoord {
+    lon: number;
+    lat: number;
+    range: number;
+  }
+
+  export namespace coord {
+    class Ecliptic {
+      constructor(lon: number, lat: number);
+      lon: number;
+      lat: number;
+    }
+  }
+
+  export namespace precess {
+    function eclipticPosition(
+      eclFrom: coord.Ecliptic,
+      epochFrom: number,
+      epochTo: number
+    ): coord.Ecliptic;
+  }
+
+  export namespace planetposition {
+    class Planet {
+      constructor(data: object);
+      name: string;
+      position(jde: number): AstroCoord;
+      position2000(jde: number): AstroCoord;
+    }
+  }
+
+  export namespace solar {
+    function apparentVSOP87(planet: planetposition.Planet, jde: number): AstroCoord;
+    function apparentEquatorialVSOP87(
+      planet: planetposition.Planet,
+      jde: number
+    ): { ra: number; dec: number; range: number };
+  }
+
+  export namespace nutation {
+    function nutation(jde: number): [number, number];
+    function meanObliquity(jde: number): number;
+  }
+
+  export namespace moonposition {
+    function position(jde: number): AstroCoord;
+    function node(jde: number): number;
+    function trueNode(jde: number): number;
+  }
+}
+
+declare module 'astronomia/data/vsop87Bearth' {
+  const data: object;
+  export default data;
+}
+
+declare module 'astronomia/data/vsop87Bmercury' {
+  const data: object;
+  export default data;
+}
+
+declare module 'astronomia/data/vsop87Bvenus' {
+  const data: object;
+  export default data;
+}
+
+declare module 'astronomia/data/vsop87Bmars' {
+  const data: object;
+  export default data;
+}
+
+declare module 'astronomia/data/vsop87Bjupiter' {
+  const data: object;
+  export default data;
+}
+
+declare module 'astronomia/data/vsop87Bsaturn' {
+  const data: object;
+  export default data;
+}
@@ -14,6 +14,15 @@ export interface BilingualText {
   ta: string;
 }
 
+/**
+ * An unambiguous moment, with the local time as displayed.
+ */
+export interface Timestamp {
+  iso: string;            // ISO-8601 with offset, e.g. 2025-01-16T03:23:44+05:30
+  time: string;           // Local display time, same format as the companion string field
+  dayOffset: number;      // Days from the panchangam date: 1 = next day, -1 = previous day
+}
+
 // ============================================================================
 // API Request/Response Types
 // ============================================================================
@@ -24,24 +33,51 @@ export interface PanchangamRequest {
   longitude: number;      // -180 to 180
   timezone: string;       // IANA timezone (e.g., "Asia/Kolkata")
   birthNakshatra?: string | undefined; // Optional, for Chandrashtamam calculation
+  nodeType?: NodeType | undefined;      // Optional, mean (default) or true Rahu/Ketu
+  ayanamsa?: AyanamsaSystem | undefined; // Optional, defaults to Lahiri
+  ayanamsaValue?: number | undefined;    // Degrees, required when ayanamsa is 'fixed'
+  sunriseDefinition?: SunriseDefinition | undefined; // Optional, defaults to upper limb
+  elevation?: number | undefined;        // Observer elevation in metres, defaults to 0
+  highLatitudePolicy?: HighLatitudePolicy | undefined; // Optional, for days without sunrise or sunset
+  lunarMonthSystem?: LunarMonthSystem | undefined; // Optional, defaults to amanta
+  includeMuhurtas?: boolean | undefined;   // Optional, adds the 15 day and 15 night muhurtas
+  includeChoghadiya?: boolean | undefined; // Optional, adds the day and night Choghadiyas
+  horaSystem?: HoraSystem | undefined;     // Optional, defaults to equal hours
 }
 
 export interface PanchangamResponse {
   date: string;
   location: LocationInfo;
+  ayanamsa: AyanamsaInfo;
   tamilCalendar: TamilCalendar;
+  lunarMonth: LunarMonthInfo;
+  season: SeasonInfo;
+  tamilIndicators: TamilIndicators;
+  sunriseDefinition: SunriseDefinition;
   sunrise: string;        // HH:MM:SS format in local time
   sunset: string;         // HH:MM:SS format in local time
+  sunriseAt: Timestamp;
+  sunsetAt: Timestamp;
+  dayBoundary: DayBoundaryInfo;
   tithi: TithiInfo;
   nakshatra: NakshatraInfo;
   yoga: YogaInfo;
   karana: KaranaInfo;
+  timeline: DailyTimeline; // All elements from sunrise to next sunrise
   moonRasi: RasiInfo;
   lagnam: LagnamInfo[];
+  lagnaIruppu: LagnaIruppu;
   inauspiciousPeriods: InauspiciousPeriods;
   auspiciousPeriods: AuspiciousPeriods;
+  hora: HoraInfo;
   festivals: FestivalInfo[];
   chandrashtama: ChandrashtamaInfo | null;
+  chandrashtamaNakshatras: ChandrashtamaNakshatras[]; // For every birth star
+  tarabalam: TarabalamInfo | null;     // When birthNakshatra is given
+  chandrabalam: ChandrabalamInfo | null; // When birthNakshatra is given
+  grahaNilai: GrahaInfo[]; // Planetary positions at sunrise
+  muhurtas?: DayNightDivision;   // When includeMuhurtas is set
+  choghadiya?: DayNightDivision; // When includeChoghadiya is set
 }
 
 // ============================================================================
@@ -52,15 +88,204 @@ export interface LocationInfo {
   latitude: number;
   longitude: number;
   timezone: string;
+  elevation: number;      // Metres above sea level
+}
+
+/**
+ * Sunrise definitions used by panchangam traditions:
+ * - upper-limb: upper edge of the disc appears, with refraction (modern almanacs)
+ * - centre: centre of the disc on the horizon, with refraction
+ * - hindu: centre of the disc on the geometric horizon, no refraction
+ */
+export type SunriseDefinition = 'upper-limb' | 'centre' | 'hindu';
+
+export interface SunriseOptions {
+  definition: SunriseDefinition;
+  elevation: number;      // Observer elevation in metres
+}
+
+/**
+ * Policies for days on which the Sun does not rise or set (high latitudes):
+ * - nearest-latitude: use sunrise/sunset at the nearest latitude where both occur
+ * - fixed-time: a conventional day from 06:00 to 18:00 local time
+ * - midnight-sun: flag the day and use the Sun's own timing; a 12-hour day centred
+ *   on solar noon and a 12-hour night centred on solar midnight
+ */
+export type HighLatitudePolicy = 'nearest-latitude' | 'fixed-time' | 'midnight-sun';
+
+export type SunCondition = 'normal' | 'midnight-sun' | 'polar-night';
+
+export interface DayBoundaryOptions extends SunriseOptions {
+  highLatitudePolicy: HighLatitudePolicy;
+}
+
+export interface DayBoundaryInfo {
+  condition: SunCondition;
+  policy: HighLatitudePolicy;
+  isConventional: boolean;      // True when sunrise/sunset are not astronomical events
+  effectiveLatitude: number;    // Latitude the sunrise/sunset were computed for
 }
 
 export interface TamilCalendar {
   month: BilingualText;
   day: number;
+  totalDays: number;      // Days in this Tamil month
   year: {
-    name: BilingualText;  // Tamil year name (e.g., "Krodhana")
-    number: number;       // Tamil year number
+    name: BilingualText;  // Samvatsara name, changes at Mesha Sankranti (e.g., "Vishwavasu")
+    number: number;       // Kali Yuga year
+  };
+  eras: EraYears;
+}
+
+/**
+ * Year numbers of the eras in use, each switching on its own new year day.
+ */
+export interface EraYears {
+  kaliYuga: number;           // Changes at Mesha Sankranti (Chithirai 1)
+  shalivahanaShaka: number;   // Changes at Chaitra Shukla Pratipada (Ugadi)
+  vikramaSamvat: number;      // Changes at Chaitra Shukla Pratipada
+  thiruvalluvar: number;      // Changes at Thai 1
+}
+
+/**
+ * A Tamil month derived from the exact Sankranti (solar ingress).
+ */
+export interface TamilMonthInfo {
+  index: number;          // 1-12 (Chithirai = 1)
+  name: BilingualText;
+  sankranti: Timestamp;   // Moment the Sun enters the rasi
+  startDate: string;      // YYYY-MM-DD, Day 1 by the sunset rule
+  endDate: string;        // YYYY-MM-DD, last day
+  totalDays: number;
+}
+
+/**
+ * Where a lunar month begins: at the new moon (amanta) or at the full moon (purnimanta).
+ */
+export type LunarMonthSystem = 'amanta' | 'purnimanta';
+
+/**
+ * The lunar (Chandramana) month in effect at sunrise.
+ */
+export interface LunarMonthInfo {
+  index: number;          // 1-12 (Chaitra = 1)
+  name: BilingualText;
+  system: LunarMonthSystem;
+  isAdhika: boolean;      // Leap month: no Sankranti during the lunation
+  isKshaya: boolean;      // Two Sankrantis during the lunation; the next month is skipped
+  kshayaMonth?: BilingualText | undefined; // Month skipped, when isKshaya
+  startAt: Timestamp;     // New moon (amanta) or full moon (purnimanta) beginning the month
+  endAt: Timestamp;
+}
+
+export type AyanaId = 'uttarayana' | 'dakshinayana';
+
+/**
+ * Seasonal markers from the Sun's sidereal longitude at sunrise.
+ */
+export interface SeasonInfo {
+  ritu: {
+    index: number;        // 1-6 (Vasanta = 1)
+    name: BilingualText;
+  };
+  ayana: {
+    id: AyanaId;
+    name: BilingualText;
+  };
+  suryaNakshatra: {
+    index: number;        // 1-27
+    name: BilingualText;
+    pada: number;         // 1-4
+  };
+  sunLongitude: number;   // Sidereal longitude (0-360)
+}
+
+export type TamilYogamId = 'amirtha' | 'siddha' | 'marana';
+
+/**
+ * Markers printed on Tamil daily sheet calendars, reckoned at sunrise
+ * except the yogam.
+ */
+export interface TamilIndicators {
+  soolam: {
+    direction: BilingualText;   // Direction to avoid travelling in
+    parigaram: BilingualText;   // Remedy before setting out
+  };
+  netram: number;         // 0-2
+  jeevan: number;         // 0, 0.5 or 1
+  isKarinal: boolean;
+  agniNakshatram: {       // null outside Agni Nakshatram (Kathiri)
+    startAt: Timestamp;   // Sun enters Bharani pada 3
+    endAt: Timestamp;     // Sun leaves Rohini pada 1
+  } | null;
+  yogam: TamilYogamPeriod[]; // Sunrise to next sunrise, changing with the nakshatra
+}
+
+/**
+ * Amirtha, Siddha or Marana yogam in effect for part of the day.
+ */
+export interface TamilYogamPeriod extends TimePeriod {
+  id: TamilYogamId;
+  name: BilingualText;
+  nature: PeriodNature;
+}
+
+export interface TamilYearRequest {
+  year: number;           // Gregorian year in which the Tamil year begins
+  latitude: number;
+  longitude: number;
+  timezone: string;
+  ayanamsa?: AyanamsaSystem | undefined;
+  ayanamsaValue?: number | undefined;
+  sunriseDefinition?: SunriseDefinition | undefined;
+  elevation?: number | undefined;
+  highLatitudePolicy?: HighLatitudePolicy | undefined;
+}
+
+export interface TamilYearResponse {
+  year: number;
+  tamilYear: {
+    name: BilingualText;
+    number: number;
   };
+  location: LocationInfo;
+  ayanamsa: AyanamsaInfo;
+  months: TamilMonthInfo[];
+}
+
+export interface ChandrashtamaSearchRequest {
+  birthNakshatra: string;
+  from: string;           // YYYY-MM-DD, first day searched
+  to: string;             // YYYY-MM-DD, last day searched
+  timezone: string;
+  ayanamsa?: AyanamsaSystem | undefined;
+  ayanamsaValue?: number | undefined;
+}
+
+export interface ChandrashtamaSearchResponse {
+  from: string;
+  to: string;
+  timezone: string;
+  birthNakshatra: BilingualText;
+  birthRasi: BilingualText;
+  chandrashtamaRasi: BilingualText;   // 8th rasi from the birth rasi
+  ayanamsa: AyanamsaInfo;
+  windows: ChandrashtamaWindow[];
+}
+
+export type AyanamsaSystem =
+  | 'lahiri'
+  | 'true-chitrapaksha'
+  | 'raman'
+  | 'krishnamurti'
+  | 'fagan-bradley'
+  | 'yukteshwar'
+  | 'fixed';
+
+export interface AyanamsaInfo {
+  system: AyanamsaSystem;
+  name: BilingualText;
+  degree: number;         // Ayanamsa at sunrise in degrees
 }
 
 // ============================================================================
@@ -72,6 +297,7 @@ export interface TithiInfo {
   name: BilingualText;
   paksha: BilingualText;  // Shukla (waxing) or Krishna (waning)
   endTime: string;        // HH:MM:SS when tithi ends
+  endAt: Timestamp;
   nextTithi: BilingualText;
 }
 
@@ -80,6 +306,7 @@ export interface NakshatraInfo {
   name: BilingualText;
   pada: number;           // 1-4 (quarter of nakshatra)
   endTime: string;        // HH:MM:SS when nakshatra ends
+  endAt: Timestamp;
   lord: BilingualText;    // Ruling planet
   nextNakshatra: BilingualText;
 }
@@ -87,22 +314,77 @@ export interface NakshatraInfo {
 export interface YogaInfo {
   index: number;          // 1-27
   name: BilingualText;
+  nature: YogaConfig['nature'];
   endTime: string;        // HH:MM:SS when yoga ends
+  endAt: Timestamp;
 }
 
 export interface KaranaInfo {
   index: number;          // 1-11
   name: BilingualText;
   endTime: string;        // HH:MM:SS when karana ends
+  endAt: Timestamp;
   nextKarana: BilingualText;
 }
 
+/**
+ * A tithi, nakshatra, yoga or karana active during the day.
+ */
+export interface TimelineEntry {
+  index: number;
+  name: BilingualText;
+  start: string;          // HH:MM:SS when the element begins
+  end: string;            // HH:MM:SS when the element ends
+  startAt: Timestamp;
+  endAt: Timestamp;
+  isKshaya: boolean;      // Begins and ends between sunrises (skipped)
+  isAdhika: boolean;      // Prevails at both sunrises (repeated)
+}
+
+export interface DailyTimeline {
+  tithis: TimelineEntry[];
+  nakshatras: TimelineEntry[];
+  yogas: TimelineEntry[];
+  karanas: TimelineEntry[];
+}
+
 export interface RasiInfo {
   index: number;          // 1-12
   name: BilingualText;
   degree: number;         // Precise degree within sign (0-30)
 }
 
+// ============================================================================
+// Graha (Planetary Position) Types
+// ============================================================================
+
+export type GrahaId =
+  | 'sun'
+  | 'moon'
+  | 'mars'
+  | 'mercury'
+  | 'jupiter'
+  | 'venus'
+  | 'saturn'
+  | 'rahu'
+  | 'ketu';
+
+export type NodeType = 'mean' | 'true';
+
+export interface GrahaInfo {
+  id: GrahaId;
+  name: BilingualText;
+  longitude: number;      // Sidereal longitude (0-360)
+  rasi: RasiInfo;
+  nakshatra: {
+    index: number;        // 1-27
+    name: BilingualText;
+    pada: number;         // 1-4
+  };
+  speed: number;          // Degrees per day (negative when retrograde)
+  isRetrograde: boolean;
+}
+
 // ============================================================================
 // Lagnam (Ascendant) Types
 // ============================================================================
@@ -112,6 +394,19 @@ export interface LagnamInfo {
   rasi: BilingualText;
   start: string;          // HH:MM when this lagnam starts
   end: string;            // HH:MM when this lagnam ends
+  startAt: Timestamp;
+  endAt: Timestamp;
+}
+
+/**
+ * Lagna iruppu: the part of the sunrise lagna remaining at sunrise.
+ */
+export interface LagnaIruppu {
+  index: number;          // 1-12, lagna rising at sunrise
+  rasi: BilingualText;
+  nazhigai: number;       // Whole nazhigai remaining (1 nazhigai = 24 minutes)
+  vinadi: number;         // Further vinadi remaining (1 vinadi = 24 seconds)
+  duration: string;       // H:MM remaining
 }
 
 // ============================================================================
@@ -121,12 +416,95 @@ export interface LagnamInfo {
 export interface TimePeriod {
   start: string;          // HH:MM format
   end: string;            // HH:MM format
+  startAt: Timestamp;
+  endAt: Timestamp;
+}
+
+/**
+ * A named muhurta period (Abhijit, Durmuhurtam, Varjyam...).
+ */
+export interface MuhurtaPeriod extends TimePeriod {
+  name: BilingualText;
+}
+
+export type PeriodNature = 'good' | 'bad' | 'neutral';
+
+/**
+ * One period of a day or night division (muhurta, Choghadiya).
+ */
+export interface DivisionPeriod extends TimePeriod {
+  index: number;          // Position in its table
+  name: BilingualText;
+  nature: PeriodNature;
+}
+
+export interface DayNightDivision {
+  day: DivisionPeriod[];    // Sunrise to sunset
+  night: DivisionPeriod[];  // Sunset to next sunrise
+}
+
+/**
+ * Equal Horas are 60 minutes from sunrise; proportional Horas divide the
+ * day and the night into 12 each.
+ */
+export type HoraSystem = 'equal' | 'proportional';
+
+export interface HoraPeriod extends TimePeriod {
+  index: number;          // 1-24 from sunrise
+  lord: GrahaId;
+  name: BilingualText;
+  nature: PeriodNature;
+}
+
+export interface HoraInfo {
+  system: HoraSystem;
+  periods: HoraPeriod[];
 }
 
 export interface InauspiciousPeriods {
   rahuKalam: TimePeriod;
   yamaGandam: TimePeriod;
   kuligai: TimePeriod;
+  durmuhurtam: MuhurtaPeriod[];   // One or two by weekday
+  varjyam: MuhurtaPeriod[];       // Within each nakshatra, from sunrise to next sunrise
+  bhadra: BhadraPeriod[];         // Vishti karanas overlapping sunrise to next sunrise
+  panchaka: PanchakaPeriod[];     // Panchaka overlapping sunrise to next sunrise
+}
+
+export type BhadraLokaId = 'swarga' | 'patala' | 'bhuloka';
+export type BhadraPartId = 'mukha' | 'madhya' | 'puchha';
+
+/**
+ * A part of the Bhadra: face, middle or tail.
+ */
+export interface BhadraPart extends TimePeriod {
+  id: BhadraPartId;
+  name: BilingualText;
+  nature: PeriodNature;
+}
+
+/**
+ * A Vishti karana, with where Bhadra dwells and its parts.
+ */
+export interface BhadraPeriod extends MuhurtaPeriod {
+  loka: {                 // From the Moon's rasi when the Bhadra begins
+    id: BhadraLokaId;
+    name: BilingualText;
+    nature: PeriodNature; // Harmful only on earth (bhuloka)
+  };
+  parts: BhadraPart[];
+}
+
+export type PanchakaTypeId = 'roga' | 'raja' | 'agni' | 'chora' | 'mrityu';
+
+/**
+ * The Moon's transit from Dhanishta pada 3 to the end of Revati.
+ */
+export interface PanchakaPeriod extends MuhurtaPeriod {
+  type: {                 // By the weekday it begins on; null on Wednesday and Thursday
+    id: PanchakaTypeId;
+    name: BilingualText;
+  } | null;
 }
 
 export interface GowriPeriod extends TimePeriod {
@@ -135,8 +513,12 @@ export interface GowriPeriod extends TimePeriod {
 }
 
 export interface AuspiciousPeriods {
-  gowriNeram: GowriPeriod[];
-  nallaNeram: TimePeriod[];
+  gowriNeram: GowriPeriod[];      // Day: sunrise to sunset
+  nightGowriNeram: GowriPeriod[]; // Night: sunset to next sunrise
+  nallaNeram: TimePeriod[];       // Good day and night periods, in time order
+  abhijitMuhurta: MuhurtaPeriod;
+  brahmaMuhurta: MuhurtaPeriod;   // Before this day's sunrise
+  amritaKalam: MuhurtaPeriod[];   // Within each nakshatra, from sunrise to next sunrise
 }
 
 // ============================================================================
@@ -149,6 +531,32 @@ export interface FestivalInfo {
   name: BilingualText;
   type: FestivalType;
   description?: BilingualText;
+  karmakala?: FestivalKarmakala;  // For tithi and nakshatra festivals not reckoned at sunrise
+}
+
+/**
+ * Time of day at which a festival's tithi or nakshatra must prevail.
+ * - sunrise: at sunrise
+ * - arunodaya: at dawn, 4 ghatis before sunrise
+ * - aparahna: the 4th of 5 parts of the day
+ * - pradosha: the first 3 muhurtas of the night
+ * - nishitha: the 8th muhurta of the night, around midnight
+ */
+export type KarmakalaId = 'sunrise' | 'arunodaya' | 'aparahna' | 'pradosha' | 'nishitha';
+
+/**
+ * Which day keeps the festival when its tithi or nakshatra prevails at the
+ * karmakala of two consecutive days: the first, the second, or the one
+ * with the greater share of the karmakala (the first if equal).
+ */
+export type FestivalTieBreak = 'first' | 'second' | 'greater';
+
+/**
+ * The karmakala of the day on which a festival is kept.
+ */
+export interface FestivalKarmakala extends TimePeriod {
+  id: KarmakalaId;
+  name: BilingualText;
 }
 
 // ============================================================================
@@ -159,10 +567,69 @@ export interface ChandrashtamaInfo {
   isActive: boolean;
   startTime: string;      // HH:MM when chandrashtamam starts
   endTime: string;        // HH:MM when chandrashtamam ends
+  startAt: Timestamp;
+  endAt: Timestamp;
   birthNakshatra: BilingualText;
   currentMoonRasi: BilingualText;
 }
 
+/**
+ * A birth nakshatra under Chandrashtama. A nakshatra split between two
+ * rasis lists only its padas in the birth rasi.
+ */
+export interface ChandrashtamaNakshatra {
+  nakshatra: BilingualText;
+  padas: number[];        // 1-4
+}
+
+/**
+ * The birth nakshatras under Chandrashtama while the Moon is in one rasi.
+ */
+export interface ChandrashtamaNakshatras extends TimePeriod {
+  moonRasi: BilingualText;    // Rasi the Moon is in
+  birthRasi: BilingualText;   // Birth rasi it is the 8th from
+  nakshatras: ChandrashtamaNakshatra[];
+}
+
+/**
+ * One transit of the Moon through the Chandrashtama rasi.
+ * Timestamp day offsets are counted from the first day searched.
+ */
+export interface ChandrashtamaWindow {
+  startAt: Timestamp;     // Moon enters the 8th rasi
+  endAt: Timestamp;       // Moon leaves it
+  durationHours: number;
+}
+
+/**
+ * A tara in effect for part of the day.
+ */
+export interface TaraPeriod extends TimePeriod {
+  index: number;          // 1-9 (Janma = 1)
+  name: BilingualText;
+  nature: PeriodNature;
+  nakshatra: BilingualText; // Moon's nakshatra during the period
+}
+
+export interface TarabalamInfo {
+  birthNakshatra: BilingualText;
+  periods: TaraPeriod[];  // From sunrise to next sunrise, with change times
+}
+
+/**
+ * The Moon's house from the birth rasi for part of the day.
+ */
+export interface ChandrabalamPeriod extends TimePeriod {
+  house: number;          // 1-12 from the birth rasi
+  rasi: BilingualText;    // Moon's rasi during the period
+  nature: PeriodNature;
+}
+
+export interface ChandrabalamInfo {
+  birthRasi: BilingualText;
+  periods: ChandrabalamPeriod[]; // From sunrise to next sunrise, with change times
+}
+
 // ============================================================================
 // Internal Calculation Types (not exposed in API)
 // ============================================================================
@@ -208,6 +675,19 @@ export interface KaranaConfig {
   type: 'movable' | 'fixed';
 }
 
+export interface GrahaConfig {
+  index: number;
+  id: GrahaId;
+  name: BilingualText;
+}
+
+export interface AyanamsaConfig {
+  system: AyanamsaSystem;
+  name: BilingualText;
+  referenceJD: number;    // Julian Day of the defining epoch
+  referenceValue: number; // Ayanamsa in degrees at the defining epoch
+}
+
 export interface RasiConfig {
   index: number;
   name: BilingualText;
@@ -215,6 +695,73 @@ export interface RasiConfig {
   startDegree: number;    // Starting degree (0, 30, 60, ... 330)
 }
 
+export interface LunarMonthConfig {
+  index: number;
+  name: BilingualText;
+}
+
+export interface RituConfig {
+  index: number;
+  name: BilingualText;
+  startDegree: number;    // Sun's sidereal longitude when the ritu starts
+}
+
+export interface AyanaConfig {
+  id: AyanaId;
+  name: BilingualText;
+  startDegree: number;    // Sun's sidereal longitude when the ayana starts
+}
+
+export interface DivisionConfig {
+  index: number;
+  name: BilingualText;
+  nature: PeriodNature;
+}
+
+export interface HoraConfig {
+  lord: GrahaId;
+  name: BilingualText;
+  nature: PeriodNature;
+}
+
+export interface SoolamConfig {
+  dayOfWeek: number;      // Sunday=0 ... Saturday=6
+  direction: BilingualText;
+  parigaram: BilingualText;
+}
+
+export interface TamilYogamConfig {
+  id: TamilYogamId;
+  name: BilingualText;
+  nature: PeriodNature;
+}
+
+export interface BhadraLokaConfig {
+  id: BhadraLokaId;
+  name: BilingualText;
+  nature: PeriodNature;
+  rasis: number[];        // Moon's rasis (1-12)
+}
+
+export interface BhadraPartConfig {
+  id: BhadraPartId;
+  name: BilingualText;
+  nature: PeriodNature;
+  ghatis: number;         // Length, of the Bhadra's 30 ghatis
+}
+
+export interface PanchakaTypeConfig {
+  id: PanchakaTypeId;
+  name: BilingualText;
+  dayOfWeek: number;      // Sunday=0 ... Saturday=6
+}
+
+export interface TaraConfig {
+  index: number;
+  name: BilingualText;
+  nature: PeriodNature;
+}
+
 export interface TamilMonthConfig {
   index: number;
   name: BilingualText;
@@ -228,9 +775,11 @@ export interface TamilMonthConfig {
 export interface TithiBasedFestival {
   name: BilingualText;
   type: 'hindu';
-  month: number;          // Tamil month (1-12)
-  tithi: number;          // Tithi index (1-30)
+  month: number;          // Tamil month (1-12), 0 = every month
+  tithi: number;          // Tithi of the paksha (1-15, 15 = Purnima or Amavasya)
   paksha: 'shukla' | 'krishna';
+  karmakala?: KarmakalaId;      // Defaults to sunrise
+  tieBreak?: FestivalTieBreak;  // Defaults to greater
 }
 
 export interface FixedDateFestival {
@@ -245,4 +794,26 @@ export interface NakshatraBasedFestival {
   type: 'hindu';
   month: number;          // Tamil month (1-12)
   nakshatra: number;      // Nakshatra index (1-27)
+  karmakala?: KarmakalaId;      // Defaults to sunrise
+  tieBreak?: FestivalTieBreak;  // Defaults to greater
+}
+
+export interface SankrantiFestival {
+  name: BilingualText;
+  type: FestivalType;
+  rasi: number;           // Rasi the Sun enters (1-12)
+  dayOffset: number;      // Days from the first day of the solar month (sunset rule)
+}
+
+export interface TamilDateFestival {
+  name: BilingualText;
+  type: FestivalType;
+  month: number;          // Tamil month (1-12)
+  day: number;            // Day of the Tamil month
+}
+
+export interface KarmakalaConfig {
+  id: KarmakalaId;
+  name: BilingualText;
+  atStart: boolean;       // Reckoned at its start rather than over the whole window
 }
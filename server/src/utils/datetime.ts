@@ -6,6 +6,8 @@
  */
 
 import { DateTime, Duration } from 'luxon';
+import { dateTimeToJulianDay, julianDayToUnixMillis } from './timescale.js';
+import { Timestamp } from '../types/panchangam.js';
 
 /**
  * Convert a date string and timezone to a Luxon DateTime.
@@ -21,60 +23,37 @@ export function createDateTime(dateStr: string, timezone: string): DateTime {
   return dt;
 }
 
+/**
+ * Format a calendar date as YYYY-MM-DD, zero-padding years before 1000.
+ */
+export function formatISODate(year: number, month: number, day: number): string {
+  return [
+    String(year).padStart(4, '0'),
+    String(month).padStart(2, '0'),
+    String(day).padStart(2, '0'),
+  ].join('-');
+}
+
 /**
  * Convert a date string to Julian Day Number.
- * The Julian Day starts at noon UTC, so we calculate for noon of the given day.
+ * Returns the UTC Julian Day of local midnight at the start of the given day.
  *
  * @param dateStr - Date in YYYY-MM-DD format
  * @param timezone - IANA timezone string
- * @returns Julian Day Number (fractional)
+ * @returns Julian Day Number (fractional, UTC)
  */
 export function dateToJulianDay(dateStr: string, timezone: string): number {
-  const dt = createDateTime(dateStr, timezone);
-  // Convert to UTC for JD calculation
-  const utc = dt.toUTC();
-
-  const year = utc.year;
-  const month = utc.month;
-  const day = utc.day;
-  const hour = utc.hour;
-  const minute = utc.minute;
-  const second = utc.second;
-
-  // Calculate day fraction
-  const dayFraction = (hour + minute / 60 + second / 3600) / 24;
-
-  // Julian Day calculation (Meeus algorithm)
-  let y = year;
-  let m = month;
-
-  if (m <= 2) {
-    y -= 1;
-    m += 12;
-  }
-
-  const a = Math.floor(y / 100);
-  const b = 2 - a + Math.floor(a / 4);
-
-  const jd = Math.floor(365.25 * (y + 4716)) +
-             Math.floor(30.6001 * (m + 1)) +
-             day + dayFraction + b - 1524.5;
-
-  return jd;
+  return dateTimeToJulianDay(createDateTime(dateStr, timezone));
 }
 
 /**
  * Convert Julian Day Number to DateTime.
- * @param jd - Julian Day Number
+ * @param jd - Julian Day Number (UTC)
  * @param timezone - Target timezone
  * @returns DateTime in the specified timezone
  */
 export function julianDayToDateTime(jd: number, timezone: string): DateTime {
-  // Convert JD to Unix timestamp
-  // JD 2440587.5 = Unix epoch (Jan 1, 1970 00:00:00 UTC)
-  const unixTimestamp = (jd - 2440587.5) * 86400;
-
-  return DateTime.fromSeconds(unixTimestamp, { zone: 'UTC' }).setZone(timezone);
+  return DateTime.fromMillis(Math.round(julianDayToUnixMillis(jd)), { zone: 'UTC' }).setZone(timezone);
 }
 
 /**
@@ -91,6 +70,55 @@ export function formatTimeShort(dt: DateTime): string {
   return dt.toFormat('HH:mm');
 }
 
+/**
+ * Format a duration in minutes as H:MM.
+ */
+export function formatDuration(minutes: number): string {
+  const total = Math.round(minutes);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Convert minutes to nazhigai and vinadi.
+ * 1 nazhigai = 24 minutes = 60 vinadi; 1 vinadi = 24 seconds.
+ */
+export function minutesToNazhigai(minutes: number): { nazhigai: number; vinadi: number } {
+  const totalVinadi = Math.round(minutes * 60 / 24);
+  return {
+    nazhigai: Math.floor(totalVinadi / 60),
+    vinadi: totalVinadi % 60,
+  };
+}
+
+/**
+ * Create a Timestamp for a moment, relative to the local date of a reference moment.
+ * @param dt - The moment
+ * @param reference - Any moment on the panchangam date, in the display timezone
+ * @param format - Display formatter (formatTime or formatTimeShort)
+ */
+export function createTimestamp(
+  dt: DateTime,
+  reference: DateTime,
+  format: (dt: DateTime) => string = formatTime
+): Timestamp {
+  const local = dt.setZone(reference.zone);
+
+  return {
+    iso: local.startOf('second').toISO({ suppressMilliseconds: true }) ?? '',
+    time: format(local),
+    dayOffset: getCalendarDayNumber(local) - getCalendarDayNumber(reference),
+  };
+}
+
+/**
+ * Days since the Unix epoch of a DateTime's local calendar date.
+ * Cheaper than startOf('day') and diff, which go through the timezone.
+ */
+function getCalendarDayNumber(dt: DateTime): number {
+  // setUTCFullYear, unlike Date.UTC, does not map years 0-99 to 1900-1999
+  return new Date(0).setUTCFullYear(dt.year, dt.month - 1, dt.day) / 86400000;
+}
+
 /**
  * Get the start of day (midnight) for a given date in a timezone.
  */
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { createLruCache } from './lruCache.js';
+
+describe('createLruCache', () => {
+  it('drops the least recently used entry beyond its size', () => {
+    const cache = createLruCache<number>(2);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.get('a');
+    cache.set('c', 3);
+
+    expect(cache.get('a')).toBe(1);
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('c')).toBe(3);
+  });
+
+  it('replaces an existing entry without growing', () => {
+    const cache = createLruCache<number>(1);
+    cache.set('a', 1);
+    cache.set('a', 2);
+
+    expect(cache.get('a')).toBe(2);
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * LRU Cache
+ *
+ * A Map bounded to a fixed number of entries, dropping the least recently
+ * used first. Tables cached between requests are keyed by location and
+ * settings, so an unbounded Map would grow with every distinct request.
+ */
+
+export interface LruCache<V> {
+  get(key: string): V | undefined;
+  set(key: string, value: V): void;
+}
+
+/**
+ * Create an LRU cache.
+ *
+ * @param maxEntries - Entries kept before the least recently used is dropped
+ */
+export function createLruCache<V>(maxEntries: number): LruCache<V> {
+  // A Map iterates in insertion order, so re-inserting marks an entry as recent
+  const entries = new Map<string, V>();
+
+  return {
+    get(key: string): V | undefined {
+      const value = entries.get(key);
+      if (value !== undefined) {
+        entries.delete(key);
+        entries.set(key, value);
+      }
+      return value;
+    },
+
+    set(key: string, value: V): void {
+      entries.delete(key);
+      entries.set(key, value);
+      if (entries.size > maxEntries) {
+        const oldest = entries.keys().next();
+        if (!oldest.done) {
+          entries.delete(oldest.value);
+        }
+      }
+    },
+  };
+}
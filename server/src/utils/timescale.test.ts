@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { getDeltaTForYear, utcToTT, ttToUTC, unixMillisToJulianDay } from './timescale.js';
+
+const SECONDS_PER_DAY = 86400;
+
+function utcJulianDay(iso: string): number {
+  return unixMillisToJulianDay(Date.parse(iso));
+}
+
+describe('getDeltaTForYear', () => {
+  it.each([
+    [1900, -2.72],
+    [1950, 29.15],
+    [2000, 63.83],
+    [2020, 69.36],
+  ])('is close to the published ΔT in %i', (year, published) => {
+    expect(Math.abs(getDeltaTForYear(year) - published)).toBeLessThan(0.5);
+  });
+
+  it.each([2005, 2025, 2050])('is continuous where the models meet in %i', (year) => {
+    expect(Math.abs(getDeltaTForYear(year) - getDeltaTForYear(year - 1e-6))).toBeLessThan(0.1);
+  });
+});
+
+describe('utcToTT and ttToUTC', () => {
+  it('adds the leap second that took effect on 2017-01-01', () => {
+    const before = utcJulianDay('2016-12-31T23:59:59Z');
+    const after = utcJulianDay('2017-01-01T00:00:00Z');
+
+    expect((utcToTT(before) - before) * SECONDS_PER_DAY).toBeCloseTo(36 + 32.184, 3);
+    expect((utcToTT(after) - after) * SECONDS_PER_DAY).toBeCloseTo(37 + 32.184, 3);
+  });
+
+  it.each([
+    '2016-12-31T23:59:59Z',
+    '2017-01-01T00:00:00Z',
+    '2017-01-01T00:00:01Z',
+    '1900-01-01T00:00:00Z',
+  ])('round-trips %s to within a millisecond', (iso) => {
+    const jdUTC = utcJulianDay(iso);
+    expect(Math.abs(ttToUTC(utcToTT(jdUTC)) - jdUTC) * SECONDS_PER_DAY).toBeLessThan(0.001);
+  });
+});
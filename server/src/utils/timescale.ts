@@ -0,0 +1,297 @@
+/**
+ * Time Scales
+ *
+ * Single source of truth for Julian Day conversions and astronomical time scales.
+ *
+ * - UTC: civil time, as returned by Luxon and used for all displayed times.
+ * - UT1: Earth-rotation time; drives sunrise, sidereal time and the ascendant.
+ * - TT:  Terrestrial (dynamical) Time; the argument of all ephemeris theories.
+ *
+ * TT - UTC is exact from the leap second table (1972 onwards).
+ * TT - UT1 (ΔT) comes from the Espenak-Meeus polynomials, observed values
+ * for 2005-2025 and a smooth extrapolation into the future.
+ * UT1 - UTC never exceeds 0.9 s, so outside the leap second era UTC is taken as UT1.
+ */
+
+import { DateTime } from 'luxon';
+
+export type TimeScale = 'UTC' | 'UT1' | 'TT';
+
+/**
+ * A moment in time, expressed as a Julian Day in a specific time scale.
+ */
+export interface Instant {
+  jd: number;
+  scale: TimeScale;
+}
+
+// Julian Day of the Unix epoch (1970-01-01T00:00:00Z)
+const UNIX_EPOCH_JD = 2440587.5;
+const MS_PER_DAY = 86400000;
+const SECONDS_PER_DAY = 86400;
+
+// TT - TAI in seconds
+const TT_MINUS_TAI = 32.184;
+
+/**
+ * TAI - UTC (leap seconds) by effective date: [year, month, seconds].
+ */
+const LEAP_SECONDS_TABLE: Array<[number, number, number]> = [
+  [1972, 1, 10], [1972, 7, 11], [1973, 1, 12], [1974, 1, 13], [1975, 1, 14],
+  [1976, 1, 15], [1977, 1, 16], [1978, 1, 17], [1979, 1, 18], [1980, 1, 19],
+  [1981, 7, 20], [1982, 7, 21], [1983, 7, 22], [1985, 7, 23], [1988, 1, 24],
+  [1990, 1, 25], [1991, 1, 26], [1992, 7, 27], [1993, 7, 28], [1994, 7, 29],
+  [1996, 1, 30], [1997, 7, 31], [1999, 1, 32], [2006, 1, 33], [2009, 1, 34],
+  [2012, 7, 35], [2015, 7, 36], [2017, 1, 37],
+];
+
+// Leap second table with effective dates as Unix milliseconds
+const LEAP_SECONDS = LEAP_SECONDS_TABLE.map(([year, month, seconds]) => ({
+  since: Date.UTC(year, month - 1, 1),
+  seconds,
+}));
+
+// The leap second table is known to be complete up to this date (IERS Bulletin C)
+const LEAP_SECONDS_VALID_UNTIL = Date.UTC(2027, 0, 1);
+
+/**
+ * Observed ΔT (seconds) at the start of each year, 2005-2025 (IERS).
+ */
+const OBSERVED_DELTA_T: number[] = [
+  64.69, 64.85, 65.15, 65.46, 65.78, 66.07, 66.32, 66.60, 66.91, 67.28, 67.64,
+  68.10, 68.59, 68.97, 69.22, 69.36, 69.36, 69.29, 69.20, 69.18, 69.14,
+];
+const OBSERVED_DELTA_T_START = 2005;
+
+// ============================================================================
+// Julian Day
+// ============================================================================
+
+/**
+ * Convert Unix milliseconds to a Julian Day.
+ */
+export function unixMillisToJulianDay(ms: number): number {
+  return ms / MS_PER_DAY + UNIX_EPOCH_JD;
+}
+
+/**
+ * Convert a Julian Day to Unix milliseconds.
+ */
+export function julianDayToUnixMillis(jd: number): number {
+  return (jd - UNIX_EPOCH_JD) * MS_PER_DAY;
+}
+
+/**
+ * Convert a Luxon DateTime (any zone) to a UTC Julian Day.
+ */
+export function dateTimeToJulianDay(dt: DateTime): number {
+  return unixMillisToJulianDay(dt.toMillis());
+}
+
+/**
+ * Convert a JavaScript Date to a UTC Julian Day.
+ */
+export function jsDateToJulianDay(date: Date): number {
+  return unixMillisToJulianDay(date.getTime());
+}
+
+/**
+ * Convert a UTC Julian Day to a JavaScript Date.
+ */
+export function julianDayToJsDate(jd: number): Date {
+  return new Date(Math.round(julianDayToUnixMillis(jd)));
+}
+
+/**
+ * Convert a Julian Day to a decimal year (Julian years from J2000).
+ */
+export function julianDayToDecimalYear(jd: number): number {
+  return 2000 + (jd - 2451545.0) / 365.25;
+}
+
+// ============================================================================
+// ΔT (TT - UT1)
+// ============================================================================
+
+/**
+ * Evaluate a polynomial with coefficients in ascending order.
+ */
+function polynomial(t: number, coefficients: number[]): number {
+  return coefficients.reduceRight((acc, c) => acc * t + c, 0);
+}
+
+/**
+ * ΔT = TT - UT1 in seconds for a decimal year.
+ * Espenak & Meeus (NASA, 2006) polynomials, with observed values for 2005-2025.
+ */
+export function getDeltaTForYear(y: number): number {
+  if (y < -500) {
+    const u = (y - 1820) / 100;
+    return -20 + 32 * u * u;
+  }
+  if (y < 500) {
+    return polynomial(y / 100, [
+      10583.6, -1014.41, 33.78311, -5.952053, -0.1798452, 0.022174192, 0.0090316521,
+    ]);
+  }
+  if (y < 1600) {
+    return polynomial((y - 1000) / 100, [
+      1574.2, -556.01, 71.23472, 0.319781, -0.8503463, -0.005050998, 0.0083572073,
+    ]);
+  }
+  if (y < 1700) {
+    return polynomial(y - 1600, [120, -0.9808, -0.01532, 1 / 7129]);
+  }
+  if (y < 1800) {
+    return polynomial(y - 1700, [8.83, 0.1603, -0.0059285, 0.00013336, -1 / 1174000]);
+  }
+  if (y < 1860) {
+    return polynomial(y - 1800, [
+      13.72, -0.332447, 0.0068612, 0.0041116, -0.00037436, 0.0000121272, -0.0000001699, 0.000000000875,
+    ]);
+  }
+  if (y < 1900) {
+    return polynomial(y - 1860, [7.62, 0.5737, -0.251754, 0.01680668, -0.0004473624, 1 / 233174]);
+  }
+  if (y < 1920) {
+    return polynomial(y - 1900, [-2.79, 1.494119, -0.0598939, 0.0061966, -0.000197]);
+  }
+  if (y < 1941) {
+    return polynomial(y - 1920, [21.20, 0.84493, -0.076100, 0.0020936]);
+  }
+  if (y < 1961) {
+    return polynomial(y - 1950, [29.07, 0.407, -1 / 233, 1 / 2547]);
+  }
+  if (y < 1986) {
+    return polynomial(y - 1975, [45.45, 1.067, -1 / 260, -1 / 718]);
+  }
+  if (y < OBSERVED_DELTA_T_START) {
+    return polynomial(y - 2000, [63.86, 0.3345, -0.060374, 0.0017275, 0.000651814, 0.00002373599]);
+  }
+
+  const lastObserved = OBSERVED_DELTA_T_START + OBSERVED_DELTA_T.length - 1;
+  if (y < lastObserved) {
+    // Linear interpolation between yearly observed values
+    const i = Math.floor(y - OBSERVED_DELTA_T_START);
+    const frac = y - OBSERVED_DELTA_T_START - i;
+    return OBSERVED_DELTA_T[i]! + (OBSERVED_DELTA_T[i + 1]! - OBSERVED_DELTA_T[i]!) * frac;
+  }
+  if (y < 2050) {
+    // Quadratic blend from the last observed value into the long-term model at 2050
+    const start = OBSERVED_DELTA_T[OBSERVED_DELTA_T.length - 1]!;
+    const end = getDeltaTForYear(2050);
+    const t = (y - lastObserved) / (2050 - lastObserved);
+    return start + (end - start) * t * t;
+  }
+  if (y < 2150) {
+    const u = (y - 1820) / 100;
+    return -20 + 32 * u * u - 0.5628 * (2150 - y);
+  }
+
+  const u = (y - 1820) / 100;
+  return -20 + 32 * u * u;
+}
+
+/**
+ * ΔT = TT - UT1 in seconds for a Julian Day.
+ */
+export function getDeltaT(jd: number): number {
+  return getDeltaTForYear(julianDayToDecimalYear(jd));
+}
+
+/**
+ * TAI - UTC in seconds, or null outside the leap second era.
+ */
+function getLeapSeconds(jdUTC: number): number | null {
+  const ms = julianDayToUnixMillis(jdUTC);
+  if (ms < LEAP_SECONDS[0]!.since || ms >= LEAP_SECONDS_VALID_UNTIL) {
+    return null;
+  }
+
+  let leapSeconds = LEAP_SECONDS[0]!.seconds;
+  for (const entry of LEAP_SECONDS) {
+    if (ms >= entry.since) {
+      leapSeconds = entry.seconds;
+    }
+  }
+  return leapSeconds;
+}
+
+// ============================================================================
+// Time Scale Conversion
+// ============================================================================
+
+/**
+ * Convert a UTC Julian Day to TT.
+ */
+export function utcToTT(jdUTC: number): number {
+  const leapSeconds = getLeapSeconds(jdUTC);
+  if (leapSeconds === null) {
+    // Outside the leap second era UTC is taken as UT1
+    return jdUTC + getDeltaT(jdUTC) / SECONDS_PER_DAY;
+  }
+  return jdUTC + (leapSeconds + TT_MINUS_TAI) / SECONDS_PER_DAY;
+}
+
+/**
+ * Convert a TT Julian Day to UTC.
+ * Iterates once since the offset depends on the (unknown) UTC date.
+ */
+export function ttToUTC(jdTT: number): number {
+  let jdUTC = jdTT - getDeltaT(jdTT) / SECONDS_PER_DAY;
+  jdUTC = jdTT - (utcToTT(jdUTC) - jdUTC);
+  return jdTT - (utcToTT(jdUTC) - jdUTC);
+}
+
+/**
+ * Convert a UT1 Julian Day to TT.
+ */
+export function ut1ToTT(jdUT1: number): number {
+  return jdUT1 + getDeltaT(jdUT1) / SECONDS_PER_DAY;
+}
+
+/**
+ * Convert a TT Julian Day to UT1.
+ */
+export function ttToUT1(jdTT: number): number {
+  const approx = jdTT - getDeltaT(jdTT) / SECONDS_PER_DAY;
+  return jdTT - getDeltaT(approx) / SECONDS_PER_DAY;
+}
+
+/**
+ * Convert an instant to another time scale.
+ */
+export function convertInstant(instant: Instant, scale: TimeScale): Instant {
+  if (instant.scale === scale) {
+    return instant;
+  }
+
+  // Go through TT, which every scale converts to directly
+  let jdTT: number;
+  switch (instant.scale) {
+    case 'UTC':
+      jdTT = utcToTT(instant.jd);
+      break;
+    case 'UT1':
+      jdTT = ut1ToTT(instant.jd);
+      break;
+    default:
+      jdTT = instant.jd;
+  }
+
+  switch (scale) {
+    case 'UTC':
+      return { jd: ttToUTC(jdTT), scale };
+    case 'UT1':
+      return { jd: ttToUT1(jdTT), scale };
+    default:
+      return { jd: jdTT, scale };
+  }
+}
+
+/**
+ * Convert a UTC Julian Day to UT1, for Earth-rotation quantities such as sidereal time.
+ */
+export function utcToUT1(jdUTC: number): number {
+  return convertInstant({ jd: jdUTC, scale: 'UTC' }, 'UT1').jd;
+}